@@ -0,0 +1,79 @@
+import { BulkUtils } from '../src/utils/BulkUtils';
+
+describe('Bulk insert (Unit)', () => {
+  const counts =
+    'SELECT count(*) FILTER (WHERE inserted)::int AS inserted, count(*) FILTER (WHERE NOT inserted)::int AS updated FROM written';
+
+  it('builds multi-row VALUES statements from objects and arrays', () => {
+    const fromObjects = BulkUtils.buildInsertStatement(
+      'public.users',
+      ['id', 'name'],
+      [
+        { id: 1, name: 'a' },
+        { id: 2, extra: true },
+      ],
+    );
+    expect(fromObjects).toEqual({
+      text: `WITH written AS (INSERT INTO "public"."users" ("id", "name") VALUES ($1, $2), ($3, $4) RETURNING (xmax = 0) AS inserted) ${counts}`,
+      values: [1, 'a', 2, null],
+    });
+
+    const fromArrays = BulkUtils.buildInsertStatement('users', ['id'], [[1], [2]]);
+    expect(fromArrays.values).toEqual([1, 2]);
+  });
+
+  it('builds unnest statements with one array parameter per column', () => {
+    const statement = BulkUtils.buildInsertStatement(
+      'users',
+      ['id', 'name'],
+      [
+        [1, 'a'],
+        [2, undefined],
+      ],
+      { method: 'unnest' },
+      ['integer', 'character varying(20)'],
+    );
+
+    expect(statement.text).toContain(
+      'INSERT INTO "users" ("id", "name") SELECT * FROM unnest($1::integer[], $2::character varying(20)[])',
+    );
+    expect(statement.values).toEqual([
+      [1, 2],
+      ['a', null],
+    ]);
+  });
+
+  it('adds conflict clauses', () => {
+    const upsert = BulkUtils.buildInsertStatement('users', ['id', 'name', 'email'], [[1, 'a', 'a@x']], {
+      onConflict: { target: ['id'], action: 'update' },
+    });
+    expect(upsert.text).toContain(
+      'ON CONFLICT ("id") DO UPDATE SET "name" = EXCLUDED."name", "email" = EXCLUDED."email" RETURNING',
+    );
+
+    const skip = BulkUtils.buildInsertStatement('users', ['id'], [[1]], { onConflict: { action: 'nothing' } });
+    expect(skip.text).toContain('VALUES ($1) ON CONFLICT DO NOTHING RETURNING');
+  });
+
+  it('resolves columns and validates the options', () => {
+    expect(BulkUtils.resolveColumns({ id: 1, name: 'a' }, {})).toEqual(['id', 'name']);
+    expect(() => BulkUtils.resolveColumns([1, 'a'], {})).toThrow('Columns are required for rows given as arrays.');
+    expect(() => BulkUtils.resolveColumns({ id: 1 }, { onConflict: { action: 'update' } })).toThrow(
+      'A conflict target is required for the update action.',
+    );
+    expect(() => BulkUtils.resolveColumns({ id: 1 }, { onConflict: { target: ['id'], action: 'update' } })).toThrow(
+      'No columns left to update on conflict.',
+    );
+    expect(() => BulkUtils.resolveColumns({ id: 1 }, { onConflict: { action: 'merge' as any } })).toThrow(
+      "Invalid conflict action 'merge'.",
+    );
+  });
+
+  it('keeps VALUES batches within the parameter limit', () => {
+    expect(BulkUtils.resolveBatchSize(undefined, 3)).toBe(1000);
+    expect(BulkUtils.resolveBatchSize(undefined, 100)).toBe(655);
+    expect(BulkUtils.resolveBatchSize(100000, 100, 'unnest')).toBe(100000);
+    expect(() => BulkUtils.resolveBatchSize(1000, 100)).toThrow('exceed the 65535 parameters of a statement');
+    expect(() => BulkUtils.resolveBatchSize(0, 1)).toThrow("Invalid batch size '0'.");
+  });
+});
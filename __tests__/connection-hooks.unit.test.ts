@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConnectionUtils } from '../src/utils/ConnectionUtils';
+import { ModuleUtils } from '../src/utils/ModuleUtils';
+
+describe('Connection hooks (Unit)', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pg-parallel-'));
+    fs.writeFileSync(
+      path.join(dir, 'hooks.js'),
+      [
+        'exports.onConnect = (client) => client.query("SET ROLE reader");',
+        'exports.reset = (client) => client.query("RESET ALL");',
+      ].join('\n'),
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('runs SQL statements in order', async () => {
+    const client = { query: jest.fn(async () => ({ rows: [] })) };
+
+    await ConnectionUtils.createHook("SET application_name = 'svc'", 'onConnect')(client as any);
+    await ConnectionUtils.createHook(['SET search_path = a', 'SET ROLE b'], 'onConnect')(client as any);
+
+    expect(client.query.mock.calls).toEqual([
+      ["SET application_name = 'svc'"],
+      ['SET search_path = a'],
+      ['SET ROLE b'],
+    ]);
+  });
+
+  it('loads module hooks, defaulting to the hook name', async () => {
+    const client = { query: jest.fn(async () => ({ rows: [] })) };
+    const onConnect = ConnectionUtils.createHook({ modulePath: path.join(dir, 'hooks.js') }, 'onConnect');
+    const reset = ConnectionUtils.createHook(
+      { modulePath: path.join(dir, 'hooks.js'), exportName: 'reset' },
+      'onCheckout',
+    );
+
+    await onConnect(client as any);
+    await onConnect(client as any);
+    await reset(client as any);
+
+    expect(client.query.mock.calls).toEqual([['SET ROLE reader'], ['SET ROLE reader'], ['RESET ALL']]);
+  });
+
+  it('loads a module hook again after a failed load', async () => {
+    const client = { query: jest.fn(async () => ({ rows: [] })) };
+    const importModule = jest
+      .spyOn(ModuleUtils, 'importModule')
+      .mockRejectedValueOnce(new Error('EIO: i/o error, read'));
+    const onConnect = ConnectionUtils.createHook({ modulePath: path.join(dir, 'hooks.js') }, 'onConnect');
+
+    try {
+      await expect(onConnect(client as any)).rejects.toThrow('EIO: i/o error, read');
+      await onConnect(client as any);
+      expect(importModule).toHaveBeenCalledTimes(2);
+    } finally {
+      importModule.mockRestore();
+    }
+    expect(client.query.mock.calls).toEqual([['SET ROLE reader']]);
+  });
+
+  it('reports invalid references and missing exports', async () => {
+    expect(() => ConnectionUtils.createHook({} as any, 'onCheckout')).toThrow(
+      'The onCheckout hook needs SQL statements or a module path.',
+    );
+    const missing = ConnectionUtils.createHook(
+      { modulePath: path.join(dir, 'hooks.js'), exportName: 'nope' },
+      'onConnect',
+    );
+
+    await expect(missing({} as any)).rejects.toThrow("Connection hook 'nope' not found or not a function");
+  });
+});
@@ -0,0 +1,57 @@
+import { CopyUtils } from '../src/utils/CopyUtils';
+
+describe('COPY (Unit)', () => {
+  const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+    const items: T[] = [];
+    for await (const item of iterable) items.push(item);
+    return items;
+  };
+
+  it('builds COPY statements with quoted identifiers and options', () => {
+    expect(
+      CopyUtils.buildCopyFromStatement('public.users', { columns: ['id', 'Name'], format: 'csv', header: true }),
+    ).toBe('COPY "public"."users" ("id", "Name") FROM STDIN WITH (FORMAT csv, HEADER)');
+    expect(CopyUtils.buildCopyFromStatement('users')).toBe('COPY "users" FROM STDIN WITH (FORMAT text)');
+    expect(CopyUtils.buildCopyToStatement('SELECT * FROM users;', { format: 'binary' })).toBe(
+      'COPY (SELECT * FROM users) TO STDOUT WITH (FORMAT binary)',
+    );
+  });
+
+  it('rejects invalid options', () => {
+    expect(() => CopyUtils.buildCopyToStatement('SELECT 1', { format: 'xml' as any })).toThrow(
+      "Invalid copy format 'xml'.",
+    );
+    expect(() => CopyUtils.buildCopyFromStatement('users', { header: true })).toThrow(
+      'The header option is only available for the csv copy format.',
+    );
+  });
+
+  it('encodes rows in the text format', () => {
+    expect(CopyUtils.formatRow([1, 'a\tb\\c\nd', null, true, Buffer.from([0xde, 0xad])])).toBe(
+      '1\ta\\tb\\\\c\\nd\t\\N\tt\t\\\\xdead\n',
+    );
+    expect(CopyUtils.formatRow([[1, null, 'x "y"'], { a: 1 }, new Date('2024-01-02T03:04:05.000Z')])).toBe(
+      '{"1",NULL,"x \\\\"y\\\\""}\t{"a":1}\t2024-01-02T03:04:05.000Z\n',
+    );
+  });
+
+  it('encodes rows in the csv format', () => {
+    expect(CopyUtils.formatRow([1, 'plain', '', null, 'a,b', 'say "hi"'], 'csv')).toBe(
+      '1,plain,"",,"a,b","say ""hi"""\n',
+    );
+    expect(() => CopyUtils.formatRow([1], 'binary')).toThrow('Rows must be encoded as Buffers');
+  });
+
+  it('aggregates source items into chunks', async () => {
+    async function* source() {
+      yield 'ab';
+      yield Buffer.from('cd');
+      yield [1, 2];
+      yield new Uint8Array([0x65]);
+    }
+
+    const chunks = await collect(CopyUtils.encodeSource(source(), 'text', 5));
+
+    expect(chunks.map((chunk) => chunk.toString())).toEqual(['abcd1\t2\n', 'e']);
+  });
+});
@@ -0,0 +1,51 @@
+import { DatabaseError } from 'pg';
+import { ErrorUtils } from '../src/utils/ErrorUtils';
+import { PgParallelError } from '../src/types';
+
+describe('Error serialization (Unit)', () => {
+  const createDatabaseError = () => {
+    const error = new DatabaseError('duplicate key value violates unique constraint "users_email_key"', 0, 'error');
+    Object.assign(error, {
+      severity: 'ERROR',
+      code: '23505',
+      detail: 'Key (email)=(a@example.com) already exists.',
+      schema: 'public',
+      table: 'users',
+      constraint: 'users_email_key',
+    });
+    return error;
+  };
+
+  it('round-trips a wrapped PostgreSQL error with its fields, code and stack', () => {
+    const original = ErrorUtils.wrapError(createDatabaseError());
+    const restored = ErrorUtils.deserializeError(ErrorUtils.serializeError(original)) as PgParallelError;
+
+    expect(restored).toBeInstanceOf(PgParallelError);
+    expect(restored).toMatchObject({ category: 'CONSTRAINT', code: '23505', message: original.message });
+    expect(restored.stack).toBe(original.stack);
+    expect(restored.cause).toBeInstanceOf(DatabaseError);
+    expect(restored.cause).toMatchObject({
+      code: '23505',
+      detail: 'Key (email)=(a@example.com) already exists.',
+      table: 'users',
+      constraint: 'users_email_key',
+    });
+  });
+
+  it('categorizes a rehydrated PostgreSQL error from its SQLSTATE', () => {
+    const restored = ErrorUtils.deserializeError(ErrorUtils.serializeError(createDatabaseError()));
+    expect(ErrorUtils.wrapError(restored)).toMatchObject({ category: 'CONSTRAINT', code: '23505' });
+  });
+
+  it('serializes plain errors and thrown values', () => {
+    const restored = ErrorUtils.deserializeError(ErrorUtils.serializeError(new TypeError('bad input')));
+    expect(restored).toMatchObject({ name: 'TypeError', message: 'bad input' });
+    expect(ErrorUtils.serializeError('boom')).toEqual({ name: 'Error', message: 'boom' });
+  });
+
+  it('stops following cyclic cause chains', () => {
+    const error: any = new Error('loop');
+    error.cause = error;
+    expect(() => ErrorUtils.serializeError(error)).not.toThrow();
+  });
+});
@@ -3,7 +3,12 @@
  */
 
 import 'dotenv/config';
-import { cpus } from 'os';
+import * as fs from 'fs';
+import * as path from 'path';
+import { cpus, tmpdir } from 'os';
+import { AsyncLocalStorage } from 'async_hooks';
+import { types } from 'util';
+import { Readable, Writable } from 'stream';
 import { PgParallel } from '../src/pg-parallel';
 import type { IParallelClient } from '../src/types';
 
@@ -84,6 +89,40 @@ describeif('PgParallel (Integration)', () => {
         }),
       ).rejects.toThrow('relation "non_existent_table" does not exist');
     });
+
+    it('should preserve PostgreSQL error details from a worker', async () => {
+      const error = await db
+        .worker(async (client: IParallelClient) => {
+          await client.query('CREATE TEMP TABLE worker_errors (email TEXT CONSTRAINT worker_errors_email_key UNIQUE)');
+          await client.query("INSERT INTO worker_errors VALUES ('a@example.com')");
+          await client.query("INSERT INTO worker_errors VALUES ('a@example.com')");
+        })
+        .catch((err) => err);
+
+      expect(error).toMatchObject({ name: 'PgParallelError', category: 'CONSTRAINT', code: '23505' });
+      expect(error.cause).toMatchObject({
+        code: '23505',
+        table: 'worker_errors',
+        constraint: 'worker_errors_email_key',
+        detail: 'Key (email)=(a@example.com) already exists.',
+      });
+      expect(error.cause.stack).toContain('error:');
+    });
+
+    it('should return worker query results with their native types', async () => {
+      const result = await db.worker(async (client: IParallelClient) =>
+        client.query("SELECT now()::timestamptz AS at, '\\xdeadbeef'::bytea AS data, 9007199254740993::int8 AS big"),
+      );
+      const expected = await db.query("SELECT '\\xdeadbeef'::bytea AS data, 9007199254740993::int8 AS big");
+
+      // Cloned values come from outside the Jest sandbox, so `toBeInstanceOf` cannot be used
+      expect(types.isDate(result.rows[0].at)).toBe(true);
+      expect(Buffer.isBuffer(result.rows[0].data)).toBe(true);
+      expect(result.rows[0].data).toEqual(expected.rows[0].data);
+      expect(result.rows[0].big).toBe(expected.rows[0].big);
+      expect(result).toMatchObject({ command: 'SELECT', rowCount: 1 });
+      expect(result.fields.map((field: { name: string }) => field.name)).toEqual(['at', 'data', 'big']);
+    });
   });
 
   // Test for Transactions
@@ -125,6 +164,829 @@ describeif('PgParallel (Integration)', () => {
     });
   });
 
+  // Test for db.transaction()
+  describe('.transaction()', () => {
+    beforeEach(async () => {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS transaction_test (
+          id INT PRIMARY KEY,
+          value INT
+        );
+      `);
+      await db.query('TRUNCATE transaction_test;');
+      await db.query('DROP SEQUENCE IF EXISTS transaction_attempts; CREATE SEQUENCE transaction_attempts;');
+    });
+
+    it('should commit when the callback resolves', async () => {
+      const result = await db.transaction(async (client: IParallelClient) => {
+        await client.query('INSERT INTO transaction_test (id, value) VALUES (1, 100)');
+        return 'done';
+      });
+
+      expect(result).toBe('done');
+      const { rows } = await db.query('SELECT value FROM transaction_test WHERE id = 1');
+      expect(rows[0].value).toBe(100);
+    });
+
+    it('should roll back when the callback throws', async () => {
+      await expect(
+        db.transaction(async (client: IParallelClient) => {
+          await client.query('INSERT INTO transaction_test (id, value) VALUES (1, 100)');
+          throw new Error('abort');
+        }),
+      ).rejects.toThrow('abort');
+
+      const { rowCount } = await db.query('SELECT * FROM transaction_test');
+      expect(rowCount).toBe(0);
+    });
+
+    it('should apply the requested isolation level and access mode', async () => {
+      const result = await db.transaction(
+        async (client: IParallelClient) => {
+          const isolation = await client.query('SHOW transaction_isolation');
+          const readOnly = await client.query('SHOW transaction_read_only');
+          return [isolation.rows[0].transaction_isolation, readOnly.rows[0].transaction_read_only];
+        },
+        { isolationLevel: 'SERIALIZABLE', readOnly: true },
+      );
+
+      expect(result).toEqual(['serializable', 'on']);
+    });
+
+    it('should re-run the whole callback on serialization failures', async () => {
+      const attempts = await db.transaction(
+        async (client: IParallelClient) => {
+          // Sequences are not transactional, so the counter survives the rollback
+          const { rows } = await client.query("SELECT nextval('transaction_attempts')::int AS attempt");
+          await client.query('INSERT INTO transaction_test (id, value) VALUES (1, $1)', [rows[0].attempt]);
+          if (rows[0].attempt === 1) {
+            const err: any = new Error('could not serialize access due to concurrent update');
+            err.code = '40001';
+            throw err;
+          }
+          return rows[0].attempt;
+        },
+        { isolationLevel: 'SERIALIZABLE', maxAttempts: 3 },
+      );
+
+      expect(attempts).toBe(2);
+      const { rows } = await db.query('SELECT value FROM transaction_test');
+      expect(rows).toEqual([{ value: 2 }]);
+    });
+
+    it('should recover from a failed savepoint without aborting the transaction', async () => {
+      await db.transaction(async (client: IParallelClient) => {
+        await client.query('INSERT INTO transaction_test (id, value) VALUES (1, 100)');
+        await client
+          .savepoint('duplicate', async (inner) => {
+            await inner.query('INSERT INTO transaction_test (id, value) VALUES (1, 200)');
+          })
+          .catch(() => undefined);
+        await client.query('INSERT INTO transaction_test (id, value) VALUES (2, 300)');
+      });
+
+      const { rows } = await db.query('SELECT id, value FROM transaction_test ORDER BY id');
+      expect(rows).toEqual([
+        { id: 1, value: 100 },
+        { id: 2, value: 300 },
+      ]);
+    });
+
+    it('should map nested client.transaction() calls to savepoints inside worker()', async () => {
+      await db.worker(async (client: IParallelClient) => {
+        await client.transaction(async (outer) => {
+          await outer.query('INSERT INTO transaction_test (id, value) VALUES (1, 100)');
+          await outer
+            .transaction(async (inner) => {
+              await inner.query('INSERT INTO transaction_test (id, value) VALUES (2, 200)');
+              throw new Error('inner failure');
+            })
+            .catch(() => undefined);
+        });
+      });
+
+      const { rows } = await db.query('SELECT id FROM transaction_test ORDER BY id');
+      expect(rows).toEqual([{ id: 1 }]);
+    });
+
+    it('should not retry non-transient errors', async () => {
+      await expect(
+        db.transaction(
+          async (client: IParallelClient) => {
+            await client.query("SELECT nextval('transaction_attempts')");
+            await client.query('INSERT INTO transaction_test (id, value) VALUES (1, 1), (1, 2)');
+          },
+          { maxAttempts: 3 },
+        ),
+      ).rejects.toThrow('duplicate key value violates unique constraint');
+
+      const { rows } = await db.query('SELECT last_value::int AS value FROM transaction_attempts');
+      expect(rows[0].value).toBe(1);
+    });
+  });
+
+  // Test for AbortSignal support
+  describe('Cancellation', () => {
+    it('should cancel a running main-thread query', async () => {
+      const controller = new AbortController();
+      const startTime = Date.now();
+      setTimeout(() => controller.abort(), 200);
+
+      await expect(db.query('SELECT pg_sleep(10)', [], { signal: controller.signal })).rejects.toMatchObject({
+        category: 'CANCELLED',
+      });
+      expect(Date.now() - startTime).toBeLessThan(5000);
+
+      // The backend is free again once the cancel request went through
+      const { rows } = await db.query('SELECT 1 AS value');
+      expect(rows[0].value).toBe(1);
+    });
+
+    it('should time out a slow main-thread query', async () => {
+      await expect(db.query('SELECT pg_sleep(10)', [], { timeoutMs: 200 })).rejects.toMatchObject({
+        category: 'TIMEOUT',
+      });
+    });
+
+    it('should cancel the statement running inside worker()', async () => {
+      await db.warmup();
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 200);
+
+      await expect(
+        db.worker(
+          async (client: IParallelClient) => {
+            await client.query('SELECT pg_sleep(10)');
+          },
+          { signal: controller.signal },
+        ),
+      ).rejects.toMatchObject({ category: 'CANCELLED' });
+
+      const result = await db.worker(async (client: IParallelClient) => {
+        const { rows } = await client.query('SELECT 1 AS value');
+        return rows[0].value;
+      });
+      expect(result).toBe(1);
+    });
+
+    it('should cancel a timed out worker() job without stopping its worker', async () => {
+      const concurrentDb = new PgParallel({
+        connectionString: process.env.DATABASE_URL,
+        maxWorkers: 1,
+        workerConcurrency: 2,
+      });
+      try {
+        await concurrentDb.warmup();
+        const [original] = (concurrentDb as any).workers;
+        const neighbour = concurrentDb.worker(async (client: IParallelClient) => {
+          const { rows } = await client.query('SELECT pg_sleep(0.5), 1 AS value');
+          return rows[0].value;
+        });
+
+        await expect(
+          concurrentDb.worker(
+            async (client: IParallelClient) => {
+              await client.query('SELECT pg_sleep(10)');
+            },
+            { timeoutMs: 200 },
+          ),
+        ).rejects.toMatchObject({ category: 'TIMEOUT' });
+        await expect(neighbour).resolves.toBe(1);
+        expect((concurrentDb as any).workers[0]).toBe(original);
+      } finally {
+        await concurrentDb.shutdown();
+      }
+    });
+  });
+
+  describe('.stream()', () => {
+    it('should stream rows from a worker in order', async () => {
+      const values: number[] = [];
+      for await (const row of db.stream('SELECT g FROM generate_series(1, $1::int) g', [1000], { batchSize: 64 })) {
+        values.push(row.g);
+      }
+
+      expect(values).toHaveLength(1000);
+      expect(values[0]).toBe(1);
+      expect(values[999]).toBe(1000);
+    });
+
+    it('should only fetch batches the consumer asks for', async () => {
+      await db.query('DROP SEQUENCE IF EXISTS stream_progress; CREATE SEQUENCE stream_progress;');
+
+      for await (const row of db.stream(
+        'SELECT g, nextval($1) AS progress FROM generate_series(1, 100000) g',
+        ['stream_progress'],
+        { batchSize: 10 },
+      )) {
+        expect(row.g).toBe(1);
+        // Give the worker time to run ahead if it ignored the consumer
+        await new Promise((res) => setTimeout(res, 300));
+        const { rows } = await db.query('SELECT last_value FROM stream_progress');
+        // The batch being consumed plus the one prefetched
+        expect(Number(rows[0].last_value)).toBeLessThanOrEqual(20);
+        break;
+      }
+
+      expect(db.getStats().activeJobs.every((jobs) => jobs === 0)).toBe(true);
+      // Breaking out closed the cursor and committed its transaction
+      const { rows } = await db.query(
+        "SELECT count(*)::int AS open FROM pg_stat_activity WHERE state LIKE 'idle in transaction%'",
+      );
+      expect(rows[0].open).toBe(0);
+    });
+
+    it('should reject when the query fails', async () => {
+      const consume = async () => {
+        for await (const _row of db.stream('SELECT * FROM non_existent_table')) {
+          // Never reached
+        }
+      };
+      await expect(consume()).rejects.toThrow('relation "non_existent_table" does not exist');
+    });
+
+    it('should stream rows inside worker() and transaction()', async () => {
+      const total = await db.worker(async (client: IParallelClient) => {
+        let sum = 0;
+        for await (const row of client.stream('SELECT g FROM generate_series(1, 500) g', [], { batchSize: 50 })) {
+          sum += row.g;
+        }
+        return sum;
+      });
+      expect(total).toBe(125250);
+
+      const seen = await db.transaction(async (client: IParallelClient) => {
+        await client.query('CREATE TEMP TABLE stream_items (id INT) ON COMMIT DROP');
+        await client.query('INSERT INTO stream_items SELECT generate_series(1, 3)');
+        const ids: number[] = [];
+        for await (const row of client.stream('SELECT id FROM stream_items ORDER BY id')) ids.push(row.id);
+        return ids;
+      });
+      expect(seen).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('.copyFrom() and .copyTo()', () => {
+    // Collects the data written to it
+    const createSink = () => {
+      const chunks: Buffer[] = [];
+      const sink = new Writable({
+        write(chunk, _encoding, callback) {
+          chunks.push(chunk);
+          callback();
+        },
+      });
+      return { sink, text: () => Buffer.concat(chunks).toString() };
+    };
+
+    beforeEach(async () => {
+      await db.query('DROP TABLE IF EXISTS copy_items; CREATE TABLE copy_items (id INT, label TEXT, tags TEXT[])');
+    });
+
+    afterEach(async () => {
+      await db.query('DROP TABLE IF EXISTS copy_items');
+    });
+
+    it('should load rows from an async iterable', async () => {
+      async function* rows() {
+        for (let i = 1; i <= 5000; i++) yield [i, i % 2 ? `item, "${i}"` : null, ['a', 'b']];
+      }
+
+      const result = await db.copyFrom('copy_items', rows(), { format: 'csv', columns: ['id', 'label', 'tags'] });
+
+      expect(result.rowCount).toBe(5000);
+      expect(result.bytes).toBeGreaterThan(0);
+      const { rows: loaded } = await db.query('SELECT * FROM copy_items WHERE id IN (1, 2) ORDER BY id');
+      expect(loaded).toEqual([
+        { id: 1, label: 'item, "1"', tags: ['a', 'b'] },
+        { id: 2, label: null, tags: ['a', 'b'] },
+      ]);
+    });
+
+    it('should load raw data from a readable stream', async () => {
+      const result = await db.copyFrom('copy_items', Readable.from(['id,label\n', '1,one\n2,two\n']), {
+        format: 'csv',
+        header: true,
+        columns: ['id', 'label'],
+      });
+
+      expect(result).toEqual({ rowCount: 2, bytes: 21 });
+    });
+
+    it('should load nothing when the source fails', async () => {
+      async function* rows() {
+        yield [1, 'one', null];
+        throw new Error('source failed');
+      }
+
+      await expect(db.copyFrom('copy_items', rows())).rejects.toThrow('source failed');
+      const { rows: loaded } = await db.query('SELECT count(*)::int AS count FROM copy_items');
+      expect(loaded[0].count).toBe(0);
+    });
+
+    it('should export a query into a writable stream', async () => {
+      const { sink, text } = createSink();
+
+      const result = await db.copyTo('SELECT g, g * 2 FROM generate_series(1, 20000) g', sink, { format: 'csv' });
+
+      expect(result.rowCount).toBe(20000);
+      const lines = text().trimEnd().split('\n');
+      expect(lines).toHaveLength(20000);
+      expect(lines[19999]).toBe('20000,40000');
+      expect(result.bytes).toBe(Buffer.byteLength(text()));
+    });
+
+    it('should stop the copy when the destination fails', async () => {
+      const failing = new Writable({
+        write(_chunk, _encoding, callback) {
+          callback(new Error('disk full'));
+        },
+      });
+
+      await expect(db.copyTo('SELECT g FROM generate_series(1, 1000000) g', failing)).rejects.toThrow('disk full');
+      expect(db.getStats().activeJobs.every((jobs) => jobs === 0)).toBe(true);
+      // The workers take new jobs on healthy connections
+      const results = await Promise.all(
+        [1, 2, 3].map(() => db.worker((client: IParallelClient) => client.query('SELECT 1 AS one'))),
+      );
+      expect(results.map((result) => result.rows[0].one)).toEqual([1, 1, 1]);
+    });
+
+    it('should reject when the copy fails', async () => {
+      await expect(db.copyTo('SELECT * FROM non_existent_table', createSink().sink)).rejects.toThrow(
+        'relation "non_existent_table" does not exist',
+      );
+      await expect(db.copyFrom('copy_items', ['not a number\n'])).rejects.toThrow('invalid input syntax');
+    });
+
+    it('should copy inside worker()', async () => {
+      const rowCount = await db.worker(async (client: IParallelClient) => {
+        const { rowCount } = await client.copyFrom('copy_items', [
+          [1, 'one', null],
+          [2, 'two', ['x']],
+        ]);
+        return rowCount;
+      });
+
+      expect(rowCount).toBe(2);
+      const { rows } = await db.query('SELECT id, label, tags FROM copy_items ORDER BY id');
+      expect(rows).toEqual([
+        { id: 1, label: 'one', tags: null },
+        { id: 2, label: 'two', tags: ['x'] },
+      ]);
+    });
+  });
+
+  describe('.scan()', () => {
+    beforeAll(async () => {
+      const setup = new PgParallel({ connectionString: process.env.DATABASE_URL, maxWorkers: 0 });
+      await setup.query(`
+        DROP TABLE IF EXISTS scan_items;
+        CREATE TABLE scan_items (id INT, uid UUID DEFAULT gen_random_uuid(), created_at TIMESTAMPTZ, amount NUMERIC);
+        INSERT INTO scan_items (id, created_at, amount)
+          SELECT g, '2024-01-01'::timestamptz + g * interval '1 minute', g / 10.0 FROM generate_series(1, 5000) g;
+        INSERT INTO scan_items (id, uid) VALUES (NULL, NULL);
+      `);
+      await setup.shutdown();
+    });
+
+    afterAll(async () => {
+      const teardown = new PgParallel({ connectionString: process.env.DATABASE_URL, maxWorkers: 0 });
+      await teardown.query('DROP TABLE IF EXISTS scan_items');
+      await teardown.shutdown();
+    });
+
+    const countRows = (rows: { id: number | null }[]) => rows.length;
+
+    it('should process every row once across key partitions', async () => {
+      const progress: number[] = [];
+      const result = await db.scan(
+        {
+          table: 'scan_items',
+          key: 'id',
+          partitions: 4,
+          batchSize: 500,
+          onProgress: (p) => progress.push(p.completed),
+        },
+        (rows: { id: number | null }[]) => rows.reduce((sum, row) => sum + (row.id ?? 0), 0),
+      );
+
+      expect(result.rows).toBe(5001);
+      expect(result.results.reduce((sum, value) => sum + value, 0)).toBe(12502500);
+      expect(result.partitions).toHaveLength(4);
+      expect(result.partitions.every((partition) => partition.done)).toBe(true);
+      expect(result.partitions.map((partition) => partition.rows)).toEqual([1251, 1250, 1250, 1250]);
+      expect(progress.sort()).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should split uuid, timestamp, numeric and block ranges', async () => {
+      for (const key of ['uid', 'created_at', 'amount', undefined]) {
+        const result = await db.scan({ table: 'scan_items', key, partitions: 3 }, countRows);
+        expect(result.rows).toBe(5001);
+        expect(result.results.reduce((sum, value) => sum + value, 0)).toBe(5001);
+      }
+    });
+
+    it('should only scan rows matching the condition', async () => {
+      const result = await db.scan(
+        { table: 'scan_items', key: 'id', columns: 'id', where: 'id > $1', values: [4000], partitions: 2 },
+        async (rows: { id: number }[], client: IParallelClient) => {
+          const { rows: check } = await client.query(
+            'SELECT count(*)::int AS count FROM scan_items WHERE id = ANY($1)',
+            [rows.map((row) => row.id)],
+          );
+          return check[0].count;
+        },
+      );
+
+      expect(result.rows).toBe(1000);
+      expect(result.partitions.map((partition) => partition.lower)).toEqual([undefined, '4501']);
+    });
+
+    it('should run transactions of the processor inside the cursor transaction', async () => {
+      const result = await db.scan(
+        { table: 'scan_items', key: 'id', columns: 'id', partitions: 2, batchSize: 1000 },
+        (rows: { id: number | null }[], client: IParallelClient) =>
+          client.transaction(async (tx) => {
+            const { rows: check } = await tx.query(
+              "SELECT count(*)::int AS count FROM pg_cursors WHERE name LIKE 'pg_parallel_cursor_%'",
+            );
+            return check[0].count === 1 ? rows.length : 0;
+          }),
+      );
+
+      expect(result.rows).toBe(5001);
+      expect(result.results.reduce((sum, value) => sum + value, 0)).toBe(5001);
+      expect(result.partitions.every((partition) => partition.batches > 1)).toBe(true);
+    });
+
+    it('should cancel the other partitions when one fails', async () => {
+      await expect(
+        db.scan({ table: 'scan_items', key: 'id', partitions: 4, batchSize: 100 }, (rows: { id: number | null }[]) => {
+          if (rows.some((row) => row.id === 42)) throw new Error('bad row');
+          return rows.length;
+        }),
+      ).rejects.toThrow('bad row');
+      // Each cancelled partition keeps its slot until its worker has stopped it
+      await (db as any).whenIdle();
+      expect(db.getStats().activeJobs.every((jobs) => jobs === 0)).toBe(true);
+    });
+  });
+
+  describe('.bulkInsert()', () => {
+    beforeEach(async () => {
+      await db.query(
+        'DROP TABLE IF EXISTS bulk_items; CREATE TABLE bulk_items (id INT PRIMARY KEY, name TEXT NOT NULL, score NUMERIC)',
+      );
+    });
+
+    afterEach(async () => {
+      await db.query('DROP TABLE IF EXISTS bulk_items');
+    });
+
+    const makeRows = (from: number, to: number, name = 'item') =>
+      Array.from({ length: to - from + 1 }, (_, i) => ({ id: from + i, name: `${name} ${from + i}`, score: i / 2 }));
+
+    it('should insert rows in parallel batches', async () => {
+      const result = await db.bulkInsert('bulk_items', makeRows(1, 2500), { batchSize: 300 });
+
+      expect(result).toEqual({ inserted: 2500, updated: 0, skipped: 0, batches: 9, failed: [] });
+      const { rows } = await db.query('SELECT count(*)::int AS count, max(id) AS max FROM bulk_items');
+      expect(rows[0]).toEqual({ count: 2500, max: 2500 });
+    });
+
+    it('should upsert or skip conflicting rows', async () => {
+      await db.bulkInsert('bulk_items', makeRows(1, 100));
+
+      const upserted = await db.bulkInsert('bulk_items', makeRows(51, 150, 'new'), {
+        batchSize: 40,
+        onConflict: { target: ['id'], action: 'update', update: ['name'] },
+      });
+      expect(upserted).toMatchObject({ inserted: 50, updated: 50, skipped: 0 });
+
+      const skipped = await db.bulkInsert('bulk_items', makeRows(141, 160, 'late'), {
+        method: 'unnest',
+        onConflict: { action: 'nothing' },
+      });
+      expect(skipped).toMatchObject({ inserted: 10, updated: 0, skipped: 10, batches: 1 });
+
+      const { rows } = await db.query('SELECT id, name FROM bulk_items WHERE id IN (50, 51, 155) ORDER BY id');
+      expect(rows.map((row) => row.name)).toEqual(['item 50', 'new 51', 'late 155']);
+    });
+
+    it('should report failed batches without losing the others', async () => {
+      const rows: unknown[][] = makeRows(1, 30).map(({ id, name }) => [id, name]);
+      rows[15] = [16, null];
+
+      const result = await db.bulkInsert('bulk_items', rows, { columns: ['id', 'name'], batchSize: 10 });
+
+      expect(result).toMatchObject({ inserted: 20, batches: 3 });
+      expect(result.failed).toHaveLength(1);
+      expect(result.failed[0]).toMatchObject({ batch: 1, offset: 10, rows: 10 });
+      expect((result.failed[0].error as any).code).toBe('23502');
+      const { rows: count } = await db.query('SELECT count(*)::int AS count FROM bulk_items');
+      expect(count[0].count).toBe(20);
+    });
+  });
+
+  describe('Type parsers', () => {
+    beforeEach(async () => {
+      await db.query("DROP TYPE IF EXISTS parser_mood; CREATE TYPE parser_mood AS ENUM ('happy', 'sad')");
+    });
+
+    afterEach(async () => {
+      await db.query('DROP TYPE IF EXISTS parser_mood');
+    });
+
+    it('should parse rows identically on the main thread and in workers', async () => {
+      const parsedDb = new PgParallel({
+        connectionString: process.env.DATABASE_URL,
+        maxWorkers: 1,
+        typeParsers: { int8: 'bigint', '1700': 'number', date: 'string', parser_mood: 'string' },
+      });
+      try {
+        const { rows } = await parsedDb.query(
+          "SELECT 9007199254740993::int8 AS big, 1.5::numeric AS amount, '2024-02-29'::date AS day, ARRAY['happy', 'sad']::parser_mood[] AS moods, ARRAY[1, 2]::int8[] AS ids",
+        );
+        // Worker functions are self-contained, so the statement is repeated
+        const fromWorker = await parsedDb.worker(async (client) => {
+          const result = await client.query(
+            "SELECT 9007199254740993::int8 AS big, 1.5::numeric AS amount, '2024-02-29'::date AS day, ARRAY['happy', 'sad']::parser_mood[] AS moods, ARRAY[1, 2]::int8[] AS ids",
+          );
+          return result.rows;
+        });
+
+        expect(rows[0]).toEqual({
+          big: BigInt('9007199254740993'),
+          amount: 1.5,
+          day: '2024-02-29',
+          moods: ['happy', 'sad'],
+          ids: [BigInt(1), BigInt(2)],
+        });
+        expect(fromWorker).toEqual(rows);
+      } finally {
+        await parsedDb.shutdown();
+      }
+    });
+
+    it('should reject unknown type names at warmup', async () => {
+      const parsedDb = new PgParallel({
+        connectionString: process.env.DATABASE_URL,
+        maxWorkers: 1,
+        typeParsers: { no_such_type: 'string' },
+      });
+      try {
+        await expect(parsedDb.warmup()).rejects.toThrow("Unknown type 'no_such_type' in typeParsers.");
+        await expect(parsedDb.query('SELECT 1')).rejects.toThrow("Unknown type 'no_such_type' in typeParsers.");
+      } finally {
+        await parsedDb.shutdown();
+      }
+    });
+  });
+
+  describe('Session context', () => {
+    it('should apply the context to query, worker and transaction calls and clear it afterwards', async () => {
+      // One connection in the main pool and one in the worker's, so every call reuses it
+      const scopedDb = new PgParallel({ connectionString: process.env.DATABASE_URL, max: 2, maxWorkers: 1 });
+      const context = { 'app.tenant_id': '42' };
+      try {
+        const { rows } = await scopedDb.query("SELECT current_setting('app.tenant_id') AS tenant", [], { context });
+        const fromWorker = await scopedDb.worker(
+          async (client) => {
+            // Nested transactions become savepoints of the one holding the context
+            return client.transaction(async (tx) => {
+              const result = await tx.query("SELECT current_setting('app.tenant_id') AS tenant");
+              return result.rows[0].tenant;
+            });
+          },
+          { context },
+        );
+        const fromTransaction = await scopedDb.transaction(
+          async (client) => {
+            const result = await client.query("SELECT current_setting('app.tenant_id') AS tenant");
+            return result.rows[0].tenant;
+          },
+          { context, isolationLevel: 'REPEATABLE READ' },
+        );
+        const afterQuery = await scopedDb.query("SELECT current_setting('app.tenant_id', true) AS tenant");
+        const afterWorker = await scopedDb.worker(async (client) => {
+          const result = await client.query("SELECT current_setting('app.tenant_id', true) AS tenant");
+          return result.rows[0].tenant;
+        });
+
+        expect(rows[0].tenant).toBe('42');
+        expect(fromWorker).toBe('42');
+        expect(fromTransaction).toBe('42');
+        expect(afterQuery.rows[0].tenant || null).toBeNull();
+        expect(afterWorker || null).toBeNull();
+      } finally {
+        await scopedDb.shutdown();
+      }
+    });
+
+    it('should roll back a failed call and clear its context', async () => {
+      const scopedDb = new PgParallel({ connectionString: process.env.DATABASE_URL, max: 2, maxWorkers: 1 });
+      try {
+        await expect(
+          scopedDb.worker(
+            async (client) => {
+              await client.query('CREATE TEMP TABLE context_rollback (id int)');
+              throw new Error('task failed');
+            },
+            { context: { 'app.tenant_id': '7' } },
+          ),
+        ).rejects.toThrow('task failed');
+
+        const state = await scopedDb.worker(async (client) => {
+          const result = await client.query(
+            "SELECT current_setting('app.tenant_id', true) AS tenant, to_regclass('pg_temp.context_rollback') AS tbl",
+          );
+          return result.rows[0];
+        });
+        expect(state.tenant || null).toBeNull();
+        expect(state.tbl).toBeNull();
+      } finally {
+        await scopedDb.shutdown();
+      }
+    });
+  });
+
+  describe('Connection hooks', () => {
+    let dir: string;
+
+    beforeAll(() => {
+      dir = fs.mkdtempSync(path.join(tmpdir(), 'pg-parallel-'));
+      fs.writeFileSync(
+        path.join(dir, 'hooks.js'),
+        'exports.onCheckout = (client) => client.query("SET pg_parallel.checkout = \'fresh\'");\n',
+      );
+    });
+
+    afterAll(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should run the hooks on connections of the main pool and of workers', async () => {
+      const hookedDb = new PgParallel({
+        connectionString: process.env.DATABASE_URL,
+        maxWorkers: 1,
+        onConnect: ["SET application_name = 'pg-parallel-hooks'", 'SET search_path = audit, public'],
+        onCheckout: { modulePath: path.join(dir, 'hooks.js') },
+      });
+      try {
+        const { rows } = await hookedDb.query(
+          "SELECT current_setting('application_name') AS app, current_setting('search_path') AS path, current_setting('pg_parallel.checkout') AS checkout",
+        );
+        const fromWorker = await hookedDb.worker(async (client) => {
+          const result = await client.query(
+            "SELECT current_setting('application_name') AS app, current_setting('search_path') AS path, current_setting('pg_parallel.checkout') AS checkout",
+          );
+          await client.query("SET pg_parallel.checkout = 'dirty'");
+          return result.rows;
+        });
+        const nextCheckout = await hookedDb.worker(async (client) => {
+          const result = await client.query("SELECT current_setting('pg_parallel.checkout') AS checkout");
+          return result.rows[0].checkout;
+        });
+
+        expect(rows[0]).toEqual({ app: 'pg-parallel-hooks', path: 'audit, public', checkout: 'fresh' });
+        expect(fromWorker).toEqual(rows);
+        expect(nextCheckout).toBe('fresh');
+      } finally {
+        await hookedDb.shutdown();
+      }
+    });
+
+    it('should run worker checkout hooks inside the propagated async context', async () => {
+      const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+      fs.writeFileSync(
+        path.join(dir, 'tagging.js'),
+        [
+          `const { getAsyncContext } = require(${JSON.stringify(path.resolve(__dirname, '../src/utils/AsyncContextUtils'))});`,
+          'exports.onCheckout = (client) =>',
+          "  client.query(\"SELECT set_config('application_name', $1, false)\", [getAsyncContext()?.requestId ?? 'none']);",
+        ].join('\n'),
+      );
+      const hookedDb = new PgParallel({
+        connectionString: process.env.DATABASE_URL,
+        maxWorkers: 1,
+        onCheckout: { modulePath: path.join(dir, 'tagging.js') },
+        asyncContext: { capture: () => requestContext.getStore() },
+      });
+      try {
+        const readName = async (client: IParallelClient) => {
+          const result = await client.query("SELECT current_setting('application_name') AS name");
+          return result.rows[0].name;
+        };
+
+        await expect(requestContext.run({ requestId: 'req-1' }, () => hookedDb.worker(readName))).resolves.toBe(
+          'req-1',
+        );
+        await expect(hookedDb.worker(readName)).resolves.toBe('none');
+      } finally {
+        await hookedDb.shutdown();
+      }
+    });
+
+    it('should fail checkouts when a hook fails', async () => {
+      const hookedDb = new PgParallel({
+        connectionString: process.env.DATABASE_URL,
+        maxWorkers: 1,
+        onConnect: 'SET ROLE no_such_role',
+      });
+      try {
+        await expect(hookedDb.query('SELECT 1')).rejects.toThrow('role "no_such_role" does not exist');
+        await expect(hookedDb.worker(async (client) => client.query('SELECT 1'))).rejects.toThrow(
+          'role "no_such_role" does not exist',
+        );
+      } finally {
+        await hookedDb.shutdown();
+      }
+    });
+  });
+
+  describe('Backpressure', () => {
+    it('should run worker jobs on the calling thread with the caller-runs policy', async () => {
+      const local = new PgParallel({
+        connectionString: process.env.DATABASE_URL,
+        maxWorkers: 1,
+        maxQueueSize: 0,
+        rejectionPolicy: 'caller-runs',
+      });
+      try {
+        await local.warmup();
+        const busy = local.task(() => new Promise((res) => setTimeout(() => res(true), 300)), []);
+
+        // The closure only resolves on the calling thread
+        const label = 'caller';
+        const result = await local.transaction(async (client: IParallelClient) => {
+          const { rows } = await client.query('SELECT $1::text AS label', [label]);
+          return rows[0].label;
+        });
+        expect(result).toBe('caller');
+        await expect(busy).resolves.toBe(true);
+      } finally {
+        await local.shutdown();
+      }
+    });
+
+    it('should stream on the calling thread with the caller-runs policy', async () => {
+      const local = new PgParallel({
+        connectionString: process.env.DATABASE_URL,
+        maxWorkers: 1,
+        maxQueueSize: 0,
+        rejectionPolicy: 'caller-runs',
+      });
+      try {
+        await local.warmup();
+        const busy = local.task(() => new Promise((res) => setTimeout(() => res(true), 300)), []);
+
+        const values: number[] = [];
+        for await (const row of local.stream('SELECT g FROM generate_series(1, 25) g', [], { batchSize: 10 })) {
+          values.push(row.g);
+        }
+        expect(values).toHaveLength(25);
+        await expect(busy).resolves.toBe(true);
+      } finally {
+        await local.shutdown();
+      }
+    });
+
+    it('should copy on the calling thread with the caller-runs policy', async () => {
+      const local = new PgParallel({
+        connectionString: process.env.DATABASE_URL,
+        maxWorkers: 1,
+        maxQueueSize: 0,
+        rejectionPolicy: 'caller-runs',
+      });
+      try {
+        await local.warmup();
+        await local.query('DROP TABLE IF EXISTS caller_copy; CREATE TABLE caller_copy (id INT)');
+        const busy = local.task(() => new Promise((res) => setTimeout(() => res(true), 300)), []);
+
+        const loaded = await local.copyFrom('caller_copy', [[1], [2], [3]]);
+        const chunks: Buffer[] = [];
+        const exported = await local.copyTo(
+          'SELECT id FROM caller_copy ORDER BY id',
+          new Writable({
+            write(chunk, _encoding, callback) {
+              chunks.push(chunk);
+              callback();
+            },
+          }),
+        );
+
+        expect(loaded.rowCount).toBe(3);
+        expect(exported.rowCount).toBe(3);
+        expect(Buffer.concat(chunks).toString()).toBe('1\n2\n3\n');
+        await expect(busy).resolves.toBe(true);
+      } finally {
+        await local.query('DROP TABLE IF EXISTS caller_copy');
+        await local.shutdown();
+      }
+    });
+  });
+
   // Test for parallelism
   describe('Parallel Execution', () => {
     it('should run multiple tasks in parallel', async () => {
@@ -192,5 +1054,25 @@ describeif('PgParallel (Integration)', () => {
         'No workers available. Instance has been shut down.',
       );
     });
+
+    it('should let an in-flight transaction commit when draining', async () => {
+      const drainDb = new PgParallel({ connectionString: process.env.DATABASE_URL, maxWorkers: 1 });
+      await drainDb.query('CREATE TABLE IF NOT EXISTS shutdown_drain (id SERIAL PRIMARY KEY)');
+      await drainDb.query('TRUNCATE shutdown_drain');
+      await drainDb.warmup();
+
+      const transaction = drainDb.transaction(async (client: IParallelClient) => {
+        await client.query('SELECT pg_sleep(0.3)');
+        await client.query('INSERT INTO shutdown_drain DEFAULT VALUES');
+        return 'committed';
+      });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      await drainDb.shutdown({ drain: true, timeoutMs: 10_000 });
+
+      await expect(transaction).resolves.toBe('committed');
+      const { rows } = await db.query('SELECT COUNT(*)::int AS count FROM shutdown_drain');
+      expect(rows[0].count).toBe(1);
+      await db.query('DROP TABLE shutdown_drain');
+    });
   });
 });
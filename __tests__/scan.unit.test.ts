@@ -0,0 +1,104 @@
+import { ScanUtils } from '../src/utils/ScanUtils';
+
+describe('Scan (Unit)', () => {
+  // Answers the planning statements with the given key type and extremes
+  const createPlanner = (answers: { type?: string; lower?: string | null; upper?: string | null; blocks?: string }) => {
+    const statements: string[] = [];
+    const query = async (text: string) => {
+      statements.push(text);
+      if (text.includes('pg_attribute')) return { rows: answers.type ? [{ type: answers.type }] : [] } as any;
+      if (text.includes('pg_relation_size')) return { rows: [{ blocks: answers.blocks }] } as any;
+      return { rows: [{ lower: answers.lower, upper: answers.upper }] } as any;
+    };
+    return { statements, query };
+  };
+
+  it('splits an integer key range into open-ended partitions', async () => {
+    const { statements, query } = createPlanner({ type: 'integer', lower: '1', upper: '100' });
+
+    const partitions = await ScanUtils.planPartitions(
+      query,
+      { table: 'public.items', key: 'id', where: 'status = $1', values: ['new'] },
+      4,
+    );
+
+    expect(statements[1]).toBe(
+      'SELECT min("id")::text AS lower, max("id")::text AS upper FROM "public"."items" WHERE (status = $1)',
+    );
+    expect(partitions.map(({ lower, upper }) => [lower, upper])).toEqual([
+      [undefined, '26'],
+      ['26', '51'],
+      ['51', '76'],
+      ['76', undefined],
+    ]);
+    expect(partitions[0]).toMatchObject({
+      text: 'SELECT * FROM "public"."items" WHERE (status = $1) AND ("id" < $2::integer OR "id" IS NULL)',
+      values: ['new', '26'],
+    });
+    expect(partitions[1]).toMatchObject({
+      text: 'SELECT * FROM "public"."items" WHERE (status = $1) AND "id" >= $2::integer AND "id" < $3::integer',
+      values: ['new', '26', '51'],
+    });
+  });
+
+  it('never creates more partitions than keys', async () => {
+    const { query } = createPlanner({ type: 'bigint', lower: '10', upper: '11' });
+
+    const partitions = await ScanUtils.planPartitions(query, { table: 'items', key: 'id', columns: 'id' }, 8);
+
+    expect(partitions.map(({ text }) => text)).toEqual([
+      'SELECT id FROM "items" WHERE ("id" < $1::bigint OR "id" IS NULL)',
+      'SELECT id FROM "items" WHERE "id" >= $1::bigint',
+    ]);
+  });
+
+  it('reads an empty range in a single partition', async () => {
+    const { query } = createPlanner({ type: 'integer', lower: null, upper: null });
+
+    const partitions = await ScanUtils.planPartitions(query, { table: 'items', key: 'id' }, 4);
+
+    expect(partitions).toEqual([
+      { index: 0, lower: undefined, upper: undefined, text: 'SELECT * FROM "items"', values: [] },
+    ]);
+  });
+
+  it('splits timestamp and uuid keys', async () => {
+    const timestamps = createPlanner({ type: 'timestamp with time zone', lower: '0', upper: '86400000' });
+    const byTime = await ScanUtils.planPartitions(timestamps.query, { table: 'events', key: 'at' }, 2);
+    expect(byTime.map(({ lower }) => lower)).toEqual([undefined, '1970-01-01T12:00:00.000Z']);
+    expect(byTime[1].text).toBe('SELECT * FROM "events" WHERE "at" >= $1::timestamp with time zone');
+
+    const uuids = createPlanner({ type: 'uuid' });
+    const byUuid = await ScanUtils.planPartitions(uuids.query, { table: 'events', key: 'id' }, 4);
+    expect(byUuid.map(({ lower }) => lower)).toEqual([
+      undefined,
+      '40000000-0000-0000-0000-000000000000',
+      '80000000-0000-0000-0000-000000000000',
+      'c0000000-0000-0000-0000-000000000000',
+    ]);
+    // The whole uuid space is split, so no extremes are queried
+    expect(uuids.statements).toHaveLength(1);
+  });
+
+  it('splits a table without key by blocks', async () => {
+    const { query } = createPlanner({ blocks: '10' });
+
+    const partitions = await ScanUtils.planPartitions(query, { table: 'items' }, 3);
+
+    expect(partitions.map(({ text, values }) => [text, values])).toEqual([
+      ['SELECT * FROM "items" WHERE ctid < $1::tid', ['(3,0)']],
+      ['SELECT * FROM "items" WHERE ctid >= $1::tid AND ctid < $2::tid', ['(3,0)', '(6,0)']],
+      ['SELECT * FROM "items" WHERE ctid >= $1::tid', ['(6,0)']],
+    ]);
+  });
+
+  it('rejects unknown columns, unsupported keys and invalid partition counts', async () => {
+    await expect(ScanUtils.planPartitions(createPlanner({}).query, { table: 'items', key: 'nope' }, 2)).rejects.toThrow(
+      "Column 'nope' not found in table 'items'.",
+    );
+    await expect(
+      ScanUtils.planPartitions(createPlanner({ type: 'text' }).query, { table: 'items', key: 'name' }, 2),
+    ).rejects.toThrow("Unsupported scan key type 'text'.");
+    expect(() => ScanUtils.resolvePartitionCount(0)).toThrow("Invalid partition count '0'.");
+  });
+});
@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TypeParserUtils } from '../src/utils/TypeParserUtils';
+
+describe('Type parsers (Unit)', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pg-parallel-'));
+    fs.writeFileSync(path.join(dir, 'parsers.js'), 'exports.parse = (value) => value.toUpperCase();\n');
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('resolves type names and adds parsers for their array types', async () => {
+    const query = jest.fn(async () => ({
+      rows: [
+        { key: 'int8', oid: 20, array_oid: 1016, is_array: false },
+        { key: '1700', oid: 1700, array_oid: 1231, is_array: false },
+        { key: '_numeric', oid: 1231, array_oid: 0, is_array: true },
+      ],
+    }));
+
+    const resolved = await TypeParserUtils.resolve(query as any, {
+      int8: 'bigint',
+      '1700': 'number',
+      _numeric: 'string',
+    });
+
+    expect((query.mock.calls[0] as any[])[1]).toEqual([['1700', 'int8', '_numeric']]);
+    expect(resolved).toEqual([
+      { oid: 20, parser: 'bigint', array: false },
+      { oid: 1700, parser: 'number', array: false },
+      { oid: 1231, parser: 'string', array: true },
+      { oid: 1016, parser: 'bigint', array: true },
+    ]);
+  });
+
+  it('rejects unknown types and invalid parsers', async () => {
+    const query = async () => ({ rows: [{ key: 'nope', oid: null, array_oid: null, is_array: null }] });
+
+    await expect(TypeParserUtils.resolve(query as any, { nope: 'string' })).rejects.toThrow(
+      "Unknown type 'nope' in typeParsers.",
+    );
+    await expect(TypeParserUtils.resolve(query as any, { int8: 'decimal' as any })).rejects.toThrow(
+      "Invalid type parser 'decimal' for type 'int8'",
+    );
+    await expect(TypeParserUtils.resolve(query as any, { int8: {} as any })).rejects.toThrow(
+      "Type parser for type 'int8' needs a module path.",
+    );
+  });
+
+  it('loads built-in and module parsers, parsing array elements', async () => {
+    const parsers = await TypeParserUtils.loadParsers([
+      { oid: 20, parser: 'bigint', array: false },
+      { oid: 1016, parser: 'bigint', array: true },
+      { oid: 90001, parser: { modulePath: path.join(dir, 'parsers.js') }, array: true },
+    ]);
+
+    expect(parsers.get(20)!('9007199254740993')).toBe(BigInt('9007199254740993'));
+    expect(parsers.get(1016)!('{{1,2},{NULL,4}}')).toEqual([
+      [BigInt(1), BigInt(2)],
+      [null, BigInt(4)],
+    ]);
+    expect(parsers.get(90001)!('{happy,"very sad"}')).toEqual(['HAPPY', 'VERY SAD']);
+    await expect(
+      TypeParserUtils.loadParsers([
+        { oid: 1, parser: { modulePath: path.join(dir, 'parsers.js'), exportName: 'x' }, array: false },
+      ]),
+    ).rejects.toThrow("Type parser 'x' not found or not a function");
+  });
+
+  it('overrides text parsers only for the configured types', () => {
+    const types = TypeParserUtils.createTypes(new Map([[1700, (value: string) => Number(value)]]));
+
+    expect(types.getTypeParser(1700, 'text')('1.5')).toBe(1.5);
+    expect(types.getTypeParser(1700, 'binary')).not.toBe(types.getTypeParser(1700, 'text'));
+    expect(types.getTypeParser(23, 'text')('42')).toBe(42);
+  });
+});
@@ -1,6 +1,11 @@
 import 'dotenv/config';
 import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { types } from 'util';
 import { PgParallel } from '../src/pg-parallel';
+import { defineTask } from '../src/utils/TaskUtils';
+import { ModuleUtils } from '../src/utils/ModuleUtils';
+import { generateReport, ping } from '../examples/tasks/typed-report-worker';
 
 const describeif = process.env.DATABASE_URL ? describe : describe.skip;
 
@@ -28,9 +33,10 @@ describeif('WorkerFileTask (Integration)', () => {
       expect(result).toEqual({
         id: expect.any(String),
         message: 'Test message from integration test',
-        timestamp: expect.any(String),
+        timestamp: expect.anything(),
       });
-    });
+      expect(types.isDate((result as { timestamp: unknown }).timestamp)).toBe(true);
+    }, 30_000);
 
     it('should execute named function from external file', async () => {
       const result = await db.worker({
@@ -46,7 +52,7 @@ describeif('WorkerFileTask (Integration)', () => {
         generatedAt: expect.any(String),
         content: 'integration-test Report for 1 records',
       });
-    });
+    }, 30_000);
 
     it('should execute handler with different arguments', async () => {
       const result = await db.worker({
@@ -57,9 +63,10 @@ describeif('WorkerFileTask (Integration)', () => {
       expect(result).toEqual({
         id: expect.any(String),
         message: 'Custom message for handler',
-        timestamp: expect.any(String),
+        timestamp: expect.anything(),
       });
-    });
+      expect(types.isDate((result as { timestamp: unknown }).timestamp)).toBe(true);
+    }, 30_000);
 
     it('should handle errors in file-based tasks', async () => {
       await expect(
@@ -69,7 +76,7 @@ describeif('WorkerFileTask (Integration)', () => {
           args: [],
         }),
       ).rejects.toThrow("Task 'nonExistentFunction' not found or not a function");
-    });
+    }, 30_000);
 
     it('should handle invalid file paths', async () => {
       await expect(
@@ -79,7 +86,7 @@ describeif('WorkerFileTask (Integration)', () => {
           args: [],
         }),
       ).rejects.toThrow();
-    });
+    }, 30_000);
 
     it('should run multiple file-based tasks in parallel', async () => {
       const tasks = [
@@ -108,7 +115,7 @@ describeif('WorkerFileTask (Integration)', () => {
       expect((results[1] as any).type).toBe('parallel-2');
       expect((results[2] as any).id).toEqual(expect.any(String));
       expect((results[2] as any).message).toBe('parallel-default');
-    });
+    }, 30_000);
 
     it('should mix function-based and file-based workers', async () => {
       const tasks = [
@@ -131,6 +138,85 @@ describeif('WorkerFileTask (Integration)', () => {
       expect((results[0] as any).data.message).toBe('from-function');
       expect((results[1] as any).id).toEqual(expect.any(String));
       expect((results[1] as any).message).toBe('from-file');
+    }, 30_000);
+  });
+
+  describe('Module formats', () => {
+    it('should import ES module tasks by path or file URL', async () => {
+      const taskPath = path.resolve(__dirname, '../examples/tasks/report-worker.mjs');
+
+      await expect(db.worker({ taskPath, args: ['from-esm'] })).resolves.toEqual({
+        id: expect.any(String),
+        message: 'from-esm',
+        format: 'esm',
+      });
+      await expect(db.worker({ taskPath: pathToFileURL(taskPath).href })).resolves.toMatchObject({
+        message: 'Default task',
+      });
+    }, 30_000);
+
+    it('should reject unsupported module formats', async () => {
+      await expect(db.worker({ taskPath: path.resolve(__dirname, '../examples/setup.sql') })).rejects.toThrow(
+        "Unsupported task module format '.sql'",
+      );
+    }, 30_000);
+  });
+
+  describe('Worker setup', () => {
+    it('should pass the setup result to function and file tasks', async () => {
+      const modulePath = path.resolve(__dirname, '../examples/tasks/template-worker.js');
+      const setupDb = new PgParallel({
+        connectionString: process.env.DATABASE_URL,
+        maxWorkers: 1,
+        workerSetup: { modulePath },
+      });
+      try {
+        const threadId = await setupDb.worker(async (_client, context: any) => context.threadId);
+        const inTransaction = await setupDb.transaction(async (client, context: any) => {
+          const { rows } = await client.query('SELECT txid_current() AS txid');
+          return { threadId: context.threadId, txid: rows[0].txid };
+        });
+        const rendered = await setupDb.worker({ taskPath: modulePath, taskName: 'render', args: ['greeting', 'Ada'] });
+
+        expect(threadId).toBeGreaterThan(0);
+        expect(inTransaction.threadId).toBe(threadId);
+        expect(rendered).toBe('Hello, Ada!');
+      } finally {
+        await setupDb.shutdown();
+      }
     });
   });
+
+  describe('Defined tasks', () => {
+    it('should run defined tasks with typed arguments and results', async () => {
+      const importSpy = jest.spyOn(ModuleUtils, 'importModule');
+      const report = await db.worker(generateReport, ['typed', 3]);
+      const ids: number[] = report.ids;
+
+      expect(report).toEqual({ type: 'typed', recordCount: 3, ids: [1, 2, 3] });
+      expect(ids).toHaveLength(3);
+      await expect(db.worker(ping, [])).resolves.toBe(true);
+      // Only the worker loads the task's module
+      expect(importSpy).not.toHaveBeenCalled();
+      importSpy.mockRestore();
+    }, 30_000);
+
+    it('should apply call options to defined tasks', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(db.worker(generateReport, ['typed', 3], { signal: controller.signal })).rejects.toMatchObject({
+        category: 'CANCELLED',
+      });
+      await expect(db.worker(generateReport, ['typed', 3], { timeoutMs: 5_000 })).resolves.toMatchObject({
+        recordCount: 3,
+      });
+    }, 30_000);
+
+    it('should reject defined tasks their module does not export', async () => {
+      const unexported = defineTask(path.resolve(__dirname, '../examples/tasks/typed-report-worker.ts'), async () => 1);
+
+      await expect(db.worker(unexported, [])).rejects.toThrow('is not exported by');
+    }, 30_000);
+  });
 });
@@ -47,6 +47,10 @@ async function main() {
     const result = await db.task(fibonacci, [complexity]);
 
     console.log(`\nCPU task completed in worker: Result ${result}`);
+
+    console.log('\nComputing a series of Fibonacci numbers across the worker pool');
+    const series = await db.map([30, 31, 32, 33, 34, 35], fibonacci, { chunkSize: 2 });
+    console.log(`Series completed: ${series.join(', ')}`);
   } catch (error) {
     console.error('An error occurred:', error);
   } finally {
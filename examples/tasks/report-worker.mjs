@@ -0,0 +1,10 @@
+/**
+ * @file Example ES module worker, loaded with import() inside the worker
+ */
+
+import { randomUUID } from 'crypto';
+
+export async function handler(client, message = 'Default task') {
+  const { rows } = await client.query('SELECT $1::text AS message', [message]);
+  return { id: randomUUID(), message: rows[0].message, format: 'esm' };
+}
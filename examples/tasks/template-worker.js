@@ -0,0 +1,21 @@
+/**
+ * @file Example worker module that prepares per-worker state with `workerSetup`
+ * The templates are compiled once per worker thread and reach every task as its
+ * `context` argument.
+ */
+
+const { threadId } = require('worker_threads');
+
+// Runs once in every worker, before it takes jobs
+exports.setup = async () => ({
+  threadId,
+  templates: {
+    greeting: (name) => `Hello, ${name}!`,
+  },
+});
+
+// The context follows the call's arguments
+exports.render = async (client, template, name, context) => {
+  const { rows } = await client.query('SELECT $1::text AS name', [name]);
+  return context.templates[template](rows[0].name);
+};
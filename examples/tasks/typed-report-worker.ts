@@ -0,0 +1,17 @@
+/**
+ * @file Example worker module with typed tasks defined through `defineTask()`
+ * Callers import the tasks themselves, so `db.worker(task, args)` checks the
+ * arguments and infers the result from the function below.
+ */
+
+import { defineTask } from '../../src';
+
+export const generateReport = defineTask(__filename, async (client, reportType: string, limit = 10) => {
+  const { rows } = await client.query('SELECT generate_series(1, $1::int) AS id', [limit]);
+  return { type: reportType, recordCount: rows.length, ids: rows.map((row): number => row.id) };
+});
+
+export const ping = defineTask(__filename, async (client) => {
+  const { rows } = await client.query('SELECT 1 AS ok');
+  return rows[0].ok === 1;
+});
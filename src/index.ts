@@ -16,10 +16,88 @@ export type {
   RetryConfig,
   CircuitBreakerConfig,
   ErrorCategory,
+  IsolationLevel,
+  TransactionOptions,
+  OperationOptions,
+  QueryOptions,
+  SessionContext,
+  SessionOptions,
+  CursorOptions,
+  StreamOptions,
+  CopyFormat,
+  CopyOptions,
+  CopyFromOptions,
+  ParallelCopyOptions,
+  ParallelCopyFromOptions,
+  CopySource,
+  CopySourceItem,
+  CopyResult,
+  ScanOptions,
+  ScanProcessor,
+  ScanPartitionProgress,
+  ScanProgress,
+  ScanResult,
+  MapOptions,
+  ReduceOptions,
+  BulkConflictOptions,
+  BulkInsertOptions,
+  BulkInsertFailure,
+  BulkInsertResult,
+  TaskOptions,
+  TaskRegistry,
+  TaskArgs,
+  TaskResult,
+  TaskDefinition,
+  WorkerContext,
+  WorkerOptions,
+  WorkerRespawnConfig,
+  RejectionPolicy,
+  PgParallelStats,
+  SchedulerStrategy,
+  Priority,
+  SchedulingOptions,
+  TransferOptions,
+  ShutdownOptions,
+  SignalHandlingConfig,
+  ModuleReference,
+  TypeParserName,
+  TypeParserSpec,
+  ConnectionHook,
+  AsyncContextConfig,
 } from './types';
 export { PgParallelError } from './types';
 
 export { ErrorUtils } from './utils/ErrorUtils';
 export { RetryUtils } from './utils/RetryUtils';
 export { CircuitBreakerUtils } from './utils/CircuitBreakerUtils';
+export { TransactionUtils } from './utils/TransactionUtils';
+export { CancelUtils } from './utils/CancelUtils';
+export { RespawnUtils } from './utils/RespawnUtils';
+export { SchedulerUtils } from './utils/SchedulerUtils';
+export { TransportUtils } from './utils/TransportUtils';
+export { CursorUtils } from './utils/CursorUtils';
+export { CopyUtils } from './utils/CopyUtils';
+export { ScanUtils } from './utils/ScanUtils';
+export { MapUtils } from './utils/MapUtils';
+export { BulkUtils } from './utils/BulkUtils';
+export { TaskUtils, defineTask } from './utils/TaskUtils';
+export { ModuleUtils } from './utils/ModuleUtils';
+export { TypeParserUtils } from './utils/TypeParserUtils';
+export { ConnectionUtils } from './utils/ConnectionUtils';
+export { SessionUtils } from './utils/SessionUtils';
+export { AsyncContextUtils, getAsyncContext } from './utils/AsyncContextUtils';
 export type { CircuitBreakerState } from './utils/CircuitBreakerUtils';
+export type { TransactionScope } from './utils/TransactionUtils';
+export type { SerializedError } from './utils/ErrorUtils';
+export type { ResultSerializer, PreparedResult } from './utils/TransportUtils';
+export type { WorkerLoad } from './utils/SchedulerUtils';
+export type { CursorQuery } from './utils/CursorUtils';
+export type { CopyClient } from './utils/CopyUtils';
+export type { ScanPartition, ScanTask, ScanPartitionOutcome } from './utils/ScanUtils';
+export type { MapChunk } from './utils/MapUtils';
+export type { StatementTask } from './utils/BulkUtils';
+export type { RegisteredTask, LoadedTask, DefinedTaskCall } from './utils/TaskUtils';
+export type { TypeParser, ResolvedTypeParser } from './utils/TypeParserUtils';
+export type { ConnectionHookFunction, ConnectionHooks } from './utils/ConnectionUtils';
+export type { SessionQuery } from './utils/SessionUtils';
+export type { AsyncContextValues, AsyncContextRestore } from './utils/AsyncContextUtils';
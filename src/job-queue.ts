@@ -0,0 +1,119 @@
+/**
+ * @file Main-thread queue of jobs waiting for worker capacity.
+ */
+
+import { Priority } from './types';
+
+interface QueueEntry<J> {
+  job: J;
+  priority: number;
+  enqueuedAt: number;
+}
+
+/**
+ * A priority queue of jobs waiting for a worker with spare capacity. Higher
+ * priorities are served first and jobs of equal priority in FIFO order. Every
+ * `agingMs` spent waiting raises a job's priority by one level, so low priority
+ * work eventually overtakes a steady stream of higher priority jobs.
+ * Jobs can leave the queue early when they are cancelled or time out.
+ */
+export class JobQueue<J> {
+  private static readonly PRIORITY_LEVELS: Record<string, number> = { high: 1, normal: 0, low: -1 };
+
+  // Kept in arrival order, so the oldest job is always first
+  private entries: QueueEntry<J>[] = [];
+
+  /**
+   * @param agingMs - Waiting time that raises a job's priority by one level; `0` disables aging
+   * @param now - Clock used to measure waiting time
+   */
+  constructor(
+    private readonly agingMs = 1_000,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Converts a named or numeric priority to its numeric level.
+   * @param priority - `high`, `normal`, `low` or a number; higher numbers are served first
+   * @returns The numeric priority level
+   */
+  static resolvePriority(priority: Priority = 'normal'): number {
+    if (typeof priority === 'number') return priority;
+    const level = this.PRIORITY_LEVELS[priority];
+    if (level === undefined) {
+      throw new Error(`Invalid priority '${priority}'.`);
+    }
+    return level;
+  }
+
+  /**
+   * The number of jobs currently waiting.
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Adds a job to the queue.
+   * @param job - The job to enqueue
+   * @param priority - Numeric priority level of the job
+   */
+  push(job: J, priority = 0): void {
+    this.entries.push({ job, priority, enqueuedAt: this.now() });
+  }
+
+  /**
+   * Removes and returns the job with the highest priority after aging.
+   * @returns The next job, or `undefined` when the queue is empty
+   */
+  shift(): J | undefined {
+    if (this.entries.length === 0) return undefined;
+
+    const now = this.now();
+    let best = 0;
+    let bestPriority = -Infinity;
+    this.entries.forEach((entry, index) => {
+      const priority = this.effectivePriority(entry, now);
+      if (priority > bestPriority) {
+        best = index;
+        bestPriority = priority;
+      }
+    });
+    return this.entries.splice(best, 1)[0].job;
+  }
+
+  /**
+   * Removes and returns the job that has waited longest, regardless of priority.
+   * @returns The oldest job, or `undefined` when the queue is empty
+   */
+  shiftOldest(): J | undefined {
+    return this.entries.shift()?.job;
+  }
+
+  /**
+   * Removes a specific job, e.g. one that was cancelled while waiting.
+   * @param job - The job to remove
+   * @returns True if the job was still queued
+   */
+  remove(job: J): boolean {
+    const index = this.entries.findIndex((entry) => entry.job === job);
+    if (index === -1) return false;
+    this.entries.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Removes and returns every queued job.
+   * @returns The jobs that were waiting, in arrival order
+   */
+  clear(): J[] {
+    const jobs = this.entries.map((entry) => entry.job);
+    this.entries = [];
+    return jobs;
+  }
+
+  private effectivePriority(entry: QueueEntry<J>, now: number): number {
+    if (this.agingMs <= 0) return entry.priority;
+    return entry.priority + (now - entry.enqueuedAt) / this.agingMs;
+  }
+}
@@ -4,9 +4,10 @@
 
 import * as path from 'path';
 import { cpus } from 'os';
-import { Pool, QueryConfig, QueryResult, QueryResultRow } from 'pg';
-import { Worker } from 'worker_threads';
+import { Pool, PoolClient, QueryConfig, QueryResult, QueryResultRow } from 'pg';
+import { TransferListItem, Worker } from 'worker_threads';
 import { randomUUID } from 'crypto';
+import { pipeline } from 'stream/promises';
 import {
   IPgParallel,
   PgParallelConfig,
@@ -16,17 +17,183 @@ import {
   RetryConfig,
   CircuitBreakerConfig,
   PgParallelError,
+  TransactionOptions,
+  QueryOptions,
+  OperationOptions,
+  CursorOptions,
+  StreamOptions,
+  CopyOptions,
+  CopyFromOptions,
+  ParallelCopyOptions,
+  ParallelCopyFromOptions,
+  CopySource,
+  CopyResult,
+  ScanOptions,
+  ScanProcessor,
+  ScanPartitionProgress,
+  ScanResult,
+  MapOptions,
+  ReduceOptions,
+  BulkInsertOptions,
+  BulkInsertResult,
+  TaskOptions,
+  TaskRegistry,
+  TaskArgs,
+  TaskResult,
+  TaskDefinition,
+  WorkerContext,
+  ModuleReference,
+  WorkerOptions,
+  WorkerRespawnConfig,
+  RejectionPolicy,
+  PgParallelStats,
+  SchedulerStrategy,
+  Priority,
+  ShutdownOptions,
+  SignalHandlingConfig,
+  SessionContext,
 } from './types';
-import { ErrorUtils } from './utils/ErrorUtils';
+import { ErrorUtils, SerializedError } from './utils/ErrorUtils';
 import { RetryUtils } from './utils/RetryUtils';
 import { CircuitBreakerUtils, CircuitBreakerState } from './utils/CircuitBreakerUtils';
+import { TransactionUtils, TransactionScope } from './utils/TransactionUtils';
+import { CancelUtils } from './utils/CancelUtils';
+import { RespawnUtils } from './utils/RespawnUtils';
+import { SchedulerUtils } from './utils/SchedulerUtils';
+import { TransportUtils } from './utils/TransportUtils';
+import { CursorUtils } from './utils/CursorUtils';
+import { CopyUtils } from './utils/CopyUtils';
+import { ScanUtils, ScanTask, ScanPartitionOutcome } from './utils/ScanUtils';
+import { MapUtils } from './utils/MapUtils';
+import { BulkUtils, StatementTask } from './utils/BulkUtils';
+import { TaskUtils, LoadedTask, RegisteredTask, DefinedTaskCall } from './utils/TaskUtils';
+import { TypeParserUtils, TypeParser, ResolvedTypeParser } from './utils/TypeParserUtils';
+import { ConnectionUtils } from './utils/ConnectionUtils';
+import { SessionUtils } from './utils/SessionUtils';
+import { AsyncContextUtils, AsyncContextValues } from './utils/AsyncContextUtils';
+import { JobQueue } from './job-queue';
 
-class ParallelClient implements IParallelClient {
+interface WorkerInfo {
+  worker: Worker;
+  /** Number of `task`, `worker` and `transaction` jobs currently running on the worker. */
+  activeJobs: number;
+  /** Set once the worker has been taken out of rotation and is being terminated. */
+  retired: boolean;
+  /** IDs of the requests posted to this worker that have not settled yet. */
+  inFlight: Set<string>;
+}
+
+interface RequestControls {
+  signal?: AbortSignal;
+  /** Invoked after the request has been rejected because of the signal. */
+  onAbort?: () => void;
+  timeoutMs?: number;
+  /** Invoked after the request has been rejected because of the timeout. */
+  onTimeout?: () => void;
+  /** Receives the batches of output of a `stream` or `copy-to` request. */
+  onBatch?: (batch: any[]) => void;
+  /** Invoked when the worker can take the next chunk of a `copy-from` request. */
+  onReady?: () => void;
+  /**
+   * Invoked once the worker is done with the request. When set, a request
+   * rejected by its signal or timeout stays in flight until the worker answers
+   * it or goes away, since the worker keeps running it until then.
+   */
+  onSettled?: () => void;
+}
+
+interface PendingRequest {
+  resolve: (value: any) => void;
+  reject: (reason?: any) => void;
+  workerInfo?: WorkerInfo;
+  onBatch?: (batch: any[]) => void;
+  onReady?: () => void;
+  /** Set once the caller has been rejected while the worker still runs the request. */
+  detached?: boolean;
+}
+
+interface QueuedJob {
+  /** Hands the reserved worker to the job. */
+  resolve: (workerInfo: WorkerInfo) => void;
+  reject: (reason?: any) => void;
+}
+
+/**
+ * Waits for a promise for at most `ms` milliseconds.
+ * @returns True if the promise settled in time; waits indefinitely when `ms` is undefined
+ */
+function settlesWithin(promise: Promise<unknown>, ms?: number): Promise<boolean> {
+  if (ms === undefined) return promise.then(() => true);
+  return new Promise<boolean>((resolve, reject) => {
+    const timer = setTimeout(() => resolve(false), ms);
+    promise.then(
+      () => {
+        clearTimeout(timer);
+        resolve(true);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    );
+  });
+}
+
+abstract class ScopedClient implements IParallelClient {
+  abstract readonly id: string;
+
+  constructor(private readonly scope: TransactionScope = TransactionUtils.createScope()) {}
+
+  abstract query<R extends QueryResultRow = any, I extends any[] = any[]>(
+    config: QueryConfig<I> | string,
+    values?: I,
+  ): Promise<QueryResult<R>>;
+
+  transaction<T>(fn: (client: IParallelClient) => Promise<T>): Promise<T> {
+    return TransactionUtils.runNested(
+      (text) => this.query(text),
+      this.scope,
+      () => fn(this),
+    );
+  }
+
+  savepoint<T>(
+    nameOrFn: string | ((client: IParallelClient) => Promise<T>),
+    fn?: (client: IParallelClient) => Promise<T>,
+  ): Promise<T> {
+    const name = typeof nameOrFn === 'string' ? nameOrFn : undefined;
+    const body = typeof nameOrFn === 'function' ? nameOrFn : fn!;
+    return TransactionUtils.runSavepoint(
+      (text) => this.query(text),
+      this.scope,
+      () => body(this),
+      name,
+    );
+  }
+
+  abstract copyFrom(table: string, source: CopySource, options?: CopyFromOptions): Promise<CopyResult>;
+
+  abstract copyTo(query: string, destination: NodeJS.WritableStream, options?: CopyOptions): Promise<CopyResult>;
+
+  stream<R extends QueryResultRow = any>(text: string, values?: any[], options: CursorOptions = {}): AsyncIterable<R> {
+    return CursorUtils.streamRows<R>(
+      (statement, params) => this.query(statement, params),
+      this.scope,
+      text,
+      values,
+      options.batchSize,
+    );
+  }
+}
+
+class ParallelClient extends ScopedClient {
   constructor(
     public readonly id: string,
     private manager: PgParallel,
     private worker: Worker,
-  ) {}
+  ) {
+    super();
+  }
 
   query<R extends QueryResultRow = any, I extends any[] = any[]>(
     config: QueryConfig<I> | string,
@@ -34,6 +201,53 @@ class ParallelClient implements IParallelClient {
   ): Promise<QueryResult<R>> {
     return this.manager.proxyQueryToWorker(this.worker, this.id, config, values);
   }
+
+  copyFrom(): Promise<CopyResult> {
+    return Promise.reject(new Error('COPY is not available on proxied clients; use the client passed to the worker.'));
+  }
+
+  copyTo(): Promise<CopyResult> {
+    return Promise.reject(new Error('COPY is not available on proxied clients; use the client passed to the worker.'));
+  }
+}
+
+/**
+ * Client for jobs that the `caller-runs` policy runs on the calling thread,
+ * backed by a connection from the main pool.
+ */
+class LocalClient extends ScopedClient {
+  /** Set when an interrupted `copyTo` left the connection unusable. */
+  broken = false;
+
+  constructor(
+    public readonly id: string,
+    private client: PoolClient,
+    scope?: TransactionScope,
+  ) {
+    super(scope);
+  }
+
+  query<R extends QueryResultRow = any, I extends any[] = any[]>(
+    config: QueryConfig<I> | string,
+    values?: I,
+  ): Promise<QueryResult<R>> {
+    return this.client.query<R, I>(config as any, values as any);
+  }
+
+  copyFrom(table: string, source: CopySource, options: CopyFromOptions = {}): Promise<CopyResult> {
+    const statement = CopyUtils.buildCopyFromStatement(table, options);
+    return CopyUtils.copyFrom(this.client, statement, source, options.format);
+  }
+
+  async copyTo(query: string, destination: NodeJS.WritableStream, options: CopyOptions = {}): Promise<CopyResult> {
+    const statement = CopyUtils.buildCopyToStatement(query, options);
+    try {
+      return await CopyUtils.copyTo(this.client, statement, destination);
+    } catch (error) {
+      this.broken = true;
+      throw error;
+    }
+  }
 }
 
 /**
@@ -45,16 +259,38 @@ class ParallelClient implements IParallelClient {
  */
 export class PgParallel implements IPgParallel {
   private localPool: Pool;
-  private workers: { worker: Worker; isBusy: boolean }[] = [];
+  private workers: WorkerInfo[] = [];
   private currentWorkerIndex = 0;
-  private readonly pendingRequests = new Map<
-    string,
-    { resolve: (value: any) => void; reject: (reason?: any) => void }
-  >();
+  private readonly pendingRequests = new Map<string, PendingRequest>();
   private readonly config: PgParallelConfig;
   private isShutdown = false;
+  private shutdownPromise: Promise<void> | null = null;
+  // How long a worker may take to end its pool when the shutdown has no deadline
+  private static readonly WORKER_CLOSE_GRACE_MS = 5_000;
+  // How long a cancelled worker job may take to stop before its thread is retired
+  private static readonly CANCEL_GRACE_MS = 1_000;
+  private readonly idleWaiters = new Set<() => void>();
+  private readonly signalHandlers = new Map<NodeJS.Signals, () => void>();
   private initializationPromise: Promise<void> | null = null;
 
+  // Jobs waiting for a free worker
+  private readonly queue: JobQueue<QueuedJob>;
+  private readonly maxQueueSize: number;
+  private readonly rejectionPolicy: RejectionPolicy;
+  private readonly workerConcurrency: number;
+  private readonly scheduler: SchedulerStrategy;
+
+  // Crash-loop tracking for automatic worker respawn
+  private readonly respawnConfig: WorkerRespawnConfig;
+  private readonly crashTimestamps: number[] = [];
+  private readonly respawnTimers = new Set<NodeJS.Timeout>();
+  private readonly tasks = new Map<string, ModuleReference>();
+  private readonly callerTasks = new Map<string, Promise<LoadedTask>>();
+  private callerContext?: Promise<unknown>;
+  private readonly typeParsers = new Map<number, TypeParser>();
+  private resolvedTypeParsers: ResolvedTypeParser[] = [];
+  private typeParsersPromise?: Promise<void>;
+
   private readonly logger: Logger = {};
 
   // Circuit breaker state for main-thread pool operations
@@ -76,6 +312,16 @@ export class PgParallel implements IPgParallel {
     this.circuitBreakerConfig = config.circuitBreaker ?? CircuitBreakerUtils.getDefaultConfig();
     this.hasRetryConfig = !!(config.retry && config.retry.maxAttempts > 1);
     this.hasLogger = !!config.logger;
+    this.respawnConfig = config.workerRespawn ?? RespawnUtils.getDefaultConfig();
+    this.queue = new JobQueue<QueuedJob>(config.priorityAgingMs);
+    this.maxQueueSize = config.maxQueueSize ?? Infinity;
+    this.rejectionPolicy = config.rejectionPolicy ?? 'reject';
+    this.workerConcurrency = Math.max(1, config.workerConcurrency ?? 1);
+    this.scheduler = config.scheduler ?? 'round-robin';
+    for (const [name, reference] of Object.entries(config.tasks ?? {})) {
+      this.tasks.set(name, TaskUtils.validateRegistration(name, reference));
+    }
+    if (config.asyncContext) AsyncContextUtils.validateConfig(config.asyncContext);
 
     const maxWorkers = this.config.maxWorkers ?? cpus().length;
     const totalMax = this.config.max ?? 10;
@@ -83,10 +329,32 @@ export class PgParallel implements IPgParallel {
     const workerMax = maxWorkers > 0 ? Math.max(1, Math.floor(totalMax / (maxWorkers + 1))) : 0;
     const localMax = Math.max(1, totalMax - workerMax * maxWorkers);
 
-    this.localPool = new Pool({ ...config, max: localMax });
+    this.localPool = ConnectionUtils.createPool(
+      {
+        ...config,
+        max: localMax,
+        ...(config.typeParsers ? { types: TypeParserUtils.createTypes(this.typeParsers) } : {}),
+      },
+      { onConnect: config.onConnect, onCheckout: config.onCheckout },
+      config.taskLoader,
+    );
     if (config.logger) {
       this.logger = config.logger;
     }
+    if (config.handleSignals) {
+      this.installSignalHandlers(config.handleSignals === true ? {} : config.handleSignals);
+    }
+  }
+
+  /**
+   * Marks an argument or result to be transferred to the receiving thread
+   * instead of copied. See `TransportUtils.transfer()`.
+   * @param value - The value to transfer
+   * @param transferList - The objects to transfer; defaults to the value's own binary data
+   * @returns The same value, for use inline
+   */
+  public static transfer<T extends object>(value: T, transferList?: readonly TransferListItem[]): T {
+    return TransportUtils.transfer(value, transferList);
   }
 
   /**
@@ -105,67 +373,315 @@ export class PgParallel implements IPgParallel {
     if (this.isShutdown) return Promise.resolve();
 
     this.initializationPromise = (async () => {
+      await this.resolveTypeParsers();
       const maxWorkers = this.config.maxWorkers ?? cpus().length;
       if (maxWorkers === 0) return;
 
-      const totalMax = this.config.max ?? 10;
-      const workerMax = Math.max(1, Math.floor(totalMax / (maxWorkers + 1)));
-      const workerConfig = { ...this.config, max: workerMax };
-
-      const workerPromises = Array.from({ length: maxWorkers }, () => {
-        const isTest = process.env.JEST_WORKER_ID !== undefined;
-        const isTsNode = !!(process as any)[Symbol.for('ts-node.register.instance')];
-        const workerPath = path.resolve(__dirname, isTest || isTsNode ? 'pool-worker.ts' : 'pool-worker.js');
-
-        const worker = new Worker(workerPath, {
-          workerData: {
-            poolConfig: workerConfig,
-            retry: this.config.retry ?? null,
-            circuitBreaker: this.config.circuitBreaker ?? null,
-            enableWorkerLogs: !!this.config.logger,
-          },
-          execArgv: isTest || isTsNode ? ['-r', 'ts-node/register'] : undefined,
-        });
+      // Workers that came up during a failed attempt are kept
+      await Promise.all(Array.from({ length: maxWorkers - this.workers.length }, () => this.spawnWorker()));
+    })().catch((error) => {
+      // Workers whose setup failed are gone, so the next call starts new ones
+      this.initializationPromise = null;
+      throw error;
+    });
+    return this.initializationPromise;
+  }
 
-        this.workers.push({ worker, isBusy: false });
-        return new Promise<void>((resolve, reject) => {
-          worker.once('online', resolve);
-          worker.once('error', reject);
-          worker.on('message', (msg: any) => this.handleWorkerMessage(msg));
-          worker.on('exit', (code) => {
-            if (code !== 0 && !this.isShutdown) {
-              this.logger.error?.('Worker stopped with non-zero exit code', { code });
-            }
-          });
-        });
+  /**
+   * Resolves the type names of `typeParsers` to OIDs and installs the parsers
+   * on the main pool, once. Workers receive the resolved parsers when spawned.
+   */
+  private resolveTypeParsers(): Promise<void> {
+    if (!this.config.typeParsers) return Promise.resolve();
+    this.typeParsersPromise ??= (async () => {
+      const resolved = await TypeParserUtils.resolve(
+        (text, values) => this.localPool.query(text, values),
+        this.config.typeParsers!,
+      );
+      const parsers = await TypeParserUtils.loadParsers(resolved, this.config.taskLoader);
+      for (const [oid, parse] of parsers) this.typeParsers.set(oid, parse);
+      this.resolvedTypeParsers = resolved;
+    })().catch((error) => {
+      // A failed lookup, e.g. while the database is unreachable, is retried by the next call
+      this.typeParsersPromise = undefined;
+      throw error;
+    });
+    return this.typeParsersPromise;
+  }
+
+  /**
+   * Starts a worker thread and adds it to the rotation. The worker is added
+   * synchronously, so messages can be posted to it before it comes online.
+   * @returns A promise that resolves once the worker handles messages and its
+   * `workerSetup` hook has run.
+   */
+  private spawnWorker(): Promise<void> {
+    const maxWorkers = this.config.maxWorkers ?? cpus().length;
+    const totalMax = this.config.max ?? 10;
+    const workerMax = Math.max(1, Math.floor(totalMax / (maxWorkers + 1)));
+    // The capture function stays on this thread; workers only need the restore module
+    const workerConfig = { ...this.config, max: workerMax, asyncContext: undefined };
+
+    const isTest = process.env.JEST_WORKER_ID !== undefined;
+    const isTsNode = !!(process as any)[Symbol.for('ts-node.register.instance')];
+    const workerPath = path.resolve(__dirname, isTest || isTsNode ? 'pool-worker.ts' : 'pool-worker.js');
+
+    const worker = new Worker(workerPath, {
+      workerData: {
+        poolConfig: workerConfig,
+        retry: this.config.retry ?? null,
+        circuitBreaker: this.config.circuitBreaker ?? null,
+        enableWorkerLogs: !!this.config.logger,
+        resultSerializer: this.config.resultSerializer ?? null,
+        tasks: Object.fromEntries(this.tasks),
+        taskLoader: this.config.taskLoader ?? null,
+        workerSetup: this.config.workerSetup ?? null,
+        typeParsers: this.resolvedTypeParsers,
+        onConnect: this.config.onConnect ?? null,
+        onCheckout: this.config.onCheckout ?? null,
+        asyncContextRestore: this.config.asyncContext?.restore ?? null,
+      },
+      // Type-checking the sources again in every thread would only slow its start down
+      execArgv: isTest || isTsNode ? ['-r', 'ts-node/register/transpile-only'] : undefined,
+    });
+
+    const workerInfo: WorkerInfo = { worker, activeJobs: 0, retired: false, inFlight: new Set() };
+    const workerId = worker.threadId;
+    this.workers.push(workerInfo);
+    this.drainQueue();
+    return new Promise<void>((resolve, reject) => {
+      worker.once('error', reject);
+      worker.on('message', (msg: any) => {
+        if (!msg.started) return this.handleWorkerMessage(msg);
+        if (!msg.error) return resolve();
+        const error = ErrorUtils.deserializeError(msg.error);
+        this.failWorkerSetup(workerInfo, error);
+        reject(error);
       });
+      worker.on('error', (error) => {
+        if (!this.isShutdown && !workerInfo.retired) {
+          this.logger.error?.('Worker thread error', { workerId, message: error?.message });
+        }
+      });
+      worker.on('exit', (code) => {
+        // No-op once the worker is ready; otherwise warmup() would wait forever
+        reject(new PgParallelError(`Worker exited with code ${code} before it was ready`, 'CONNECTION'));
+        if (workerInfo.retired) return;
+        this.handleWorkerCrash(workerInfo, workerId, code);
+      });
+    });
+  }
 
-      await Promise.all(workerPromises);
-    })();
-    return this.initializationPromise;
+  /**
+   * Handles a worker that exited without being asked to: its in-flight requests
+   * are rejected and a replacement is scheduled unless the pool is crash-looping.
+   */
+  private handleWorkerCrash(workerInfo: WorkerInfo, workerId: number, code: number): void {
+    workerInfo.retired = true;
+    this.workers = this.workers.filter((w) => w !== workerInfo);
+    this.logger.error?.('Worker exited unexpectedly', { workerId, code });
+    this.rejectInFlight(workerInfo, new PgParallelError(`Worker exited unexpectedly with code ${code}`, 'CONNECTION'));
+
+    if (this.isShutdown) {
+      // Nothing is respawned while shutting down, so queued jobs cannot run once the last worker is gone
+      if (this.workers.length === 0) this.rejectQueued(this.createShutdownError());
+      return;
+    }
+
+    const recentCrashes = RespawnUtils.recordCrash(this.crashTimestamps, this.respawnConfig);
+    if (!RespawnUtils.canRespawn(recentCrashes, this.respawnConfig)) {
+      this.logger.error?.('Worker crash loop detected, not respawning', {
+        crashes: recentCrashes,
+        windowMs: this.respawnConfig.windowMs,
+      });
+      if (this.workers.length === 0) {
+        this.rejectQueued(new PgParallelError('No workers available. All workers have crashed.', 'CONNECTION'));
+      }
+      return;
+    }
+
+    const delay = RespawnUtils.computeDelay(recentCrashes, this.respawnConfig);
+    const timer = setTimeout(() => {
+      this.respawnTimers.delete(timer);
+      // A retried warmup may have refilled the pool in the meantime
+      if (this.isShutdown || this.workers.length >= (this.config.maxWorkers ?? cpus().length)) return;
+      this.logger.info?.('Respawning worker', { replaces: workerId });
+      this.spawnWorker().catch((error) => {
+        this.logger.error?.('Failed to respawn worker', { message: error?.message });
+      });
+    }, delay);
+    this.respawnTimers.add(timer);
+  }
+
+  /**
+   * Stops a worker whose `workerSetup` hook failed. Jobs already sent to it are
+   * rejected with the failure, and so are queued jobs once no worker is left.
+   */
+  private failWorkerSetup(workerInfo: WorkerInfo, error: Error): void {
+    workerInfo.retired = true;
+    this.workers = this.workers.filter((w) => w !== workerInfo);
+    this.logger.error?.('Worker setup failed', { workerId: workerInfo.worker.threadId, message: error.message });
+    this.rejectInFlight(workerInfo, ErrorUtils.wrapError(error));
+    if (this.workers.length === 0) this.rejectQueued(error);
+    workerInfo.worker.terminate().catch(() => {});
+  }
+
+  /**
+   * Rejects every request still in flight on a worker.
+   */
+  private rejectInFlight(workerInfo: WorkerInfo, error: PgParallelError): void {
+    for (const requestId of workerInfo.inFlight) {
+      const request = this.pendingRequests.get(requestId);
+      if (!request) continue;
+      this.pendingRequests.delete(requestId);
+      request.reject(error);
+    }
+    workerInfo.inFlight.clear();
+  }
+
+  /**
+   * Terminates a worker, rejects every request still pending on it and spawns
+   * a replacement so the pool keeps its size.
+   * @param workerInfo - The worker to replace
+   * @param reason - Human-readable reason, included in the rejection message
+   */
+  private async replaceWorker(workerInfo: WorkerInfo, reason: string): Promise<void> {
+    if (workerInfo.retired) return;
+    workerInfo.retired = true;
+    this.workers = this.workers.filter((w) => w !== workerInfo);
+    this.logger.warn?.('Replacing worker', { workerId: workerInfo.worker.threadId, reason });
+
+    this.rejectInFlight(workerInfo, new PgParallelError(`Worker terminated: ${reason}`, 'CONNECTION'));
+
+    const replacement = this.isShutdown ? Promise.resolve() : this.spawnWorker();
+    await workerInfo.worker.terminate();
+    await replacement;
+  }
+
+  /**
+   * Replaces a worker in the background, logging instead of throwing on failure.
+   */
+  private retireWorker(workerInfo: WorkerInfo, reason: string): void {
+    this.replaceWorker(workerInfo, reason).catch((error) => {
+      this.logger.error?.('Failed to replace worker', { message: error?.message });
+    });
+  }
+
+  /**
+   * Registers a pending request and wires its optional abort signal and timeout.
+   * @param requestId - The request identifier sent to the worker
+   * @param workerInfo - The worker the request is posted to
+   * @param controls - Optional signal and timeout, with their callbacks
+   * @returns A promise settled by the worker response, the signal or the timeout
+   */
+  private createRequest<T>(requestId: string, workerInfo: WorkerInfo, controls: RequestControls = {}): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const { signal, timeoutMs, onSettled } = controls;
+      let timer: NodeJS.Timeout | undefined;
+      const cleanup = () => {
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener('abort', abort);
+      };
+      const settle = () => {
+        this.pendingRequests.delete(requestId);
+        workerInfo.inFlight.delete(requestId);
+        onSettled?.();
+      };
+      // Rejects the caller; the request itself settles now, or once the worker is done with it
+      const detach = (error: PgParallelError) => {
+        const request = this.pendingRequests.get(requestId);
+        if (!request || request.detached) return false;
+        cleanup();
+        if (onSettled) request.detached = true;
+        else settle();
+        reject(error);
+        return true;
+      };
+      const abort = () => {
+        if (detach(CancelUtils.createCancelledError(signal))) controls.onAbort?.();
+      };
+
+      signal?.addEventListener('abort', abort, { once: true });
+      if (timeoutMs) {
+        timer = setTimeout(() => {
+          if (detach(CancelUtils.createTimeoutError(timeoutMs))) controls.onTimeout?.();
+        }, timeoutMs);
+      }
+
+      workerInfo.inFlight.add(requestId);
+      const request: PendingRequest = {
+        resolve: (value) => {
+          cleanup();
+          settle();
+          if (!request.detached) resolve(value);
+        },
+        reject: (reason) => {
+          cleanup();
+          settle();
+          if (!request.detached) reject(reason);
+        },
+        workerInfo,
+        onBatch: controls.onBatch,
+        onReady: controls.onReady,
+      };
+      this.pendingRequests.set(requestId, request);
+    });
+  }
+
+  /**
+   * Resolves the timeout of a call, falling back to the instance default.
+   */
+  private resolveTimeout(options: { timeoutMs?: number }): number | undefined {
+    const timeoutMs = options.timeoutMs ?? this.config.timeoutMs;
+    return timeoutMs && timeoutMs > 0 ? timeoutMs : undefined;
+  }
+
+  /**
+   * Returns the number of jobs the workers can run at once.
+   */
+  private getSlotCount(): number {
+    return Math.max(1, this.config.maxWorkers ?? cpus().length) * this.workerConcurrency;
   }
 
   private handleWorkerMessage(message: {
     requestId: string;
     workerId: string;
     data?: any;
-    error?: { message: string };
+    /** A batch of output of a `stream` or `copy-to` request, which stays pending until the final message. */
+    batch?: any[];
+    /** Set when the worker can take the next chunk of a `copy-from` request. */
+    ready?: boolean;
+    /** Set when the data contains Buffers that arrived as plain Uint8Arrays. */
+    hasBuffers?: boolean;
+    error?: SerializedError;
   }) {
-    const workerInfo = this.workers.find((w) => w.worker.threadId.toString() === message.workerId);
-    if (workerInfo) workerInfo.isBusy = false;
-
     const request = this.pendingRequests.get(message.requestId);
     if (!request) return;
+    if (request.detached) {
+      // The caller already gave up; the worker is only now done with the request
+      if (!message.batch && !message.ready) request.resolve(undefined);
+      return;
+    }
+
+    if (message.batch) {
+      request.onBatch?.(message.hasBuffers ? (TransportUtils.restoreBuffers(message.batch) as any[]) : message.batch);
+      return;
+    }
+    if (message.ready) {
+      request.onReady?.();
+      return;
+    }
 
     if (message.error) {
-      const category = ErrorUtils.categorizeError(message.error);
+      const error = ErrorUtils.wrapError(ErrorUtils.deserializeError(message.error));
       this.logger.warn?.('Worker operation failed', {
         workerId: message.workerId,
-        category,
-        message: message.error.message,
+        category: error.category,
+        code: error.code,
+        message: error.message,
       });
-      request.reject(new PgParallelError(message.error.message, category));
-    } else request.resolve(message.data);
+      request.reject(error);
+    } else request.resolve(message.hasBuffers ? TransportUtils.restoreBuffers(message.data) : message.data);
 
     this.pendingRequests.delete(message.requestId);
   }
@@ -173,118 +689,1128 @@ export class PgParallel implements IPgParallel {
   query<R extends QueryResultRow = any, I extends any[] = any[]>(
     config: string | QueryConfig<I>,
     values?: I,
+    options: QueryOptions = {},
+  ): Promise<QueryResult<R>> {
+    const { signal, context } = options;
+    const timeoutMs = this.resolveTimeout(options);
+    let hasContext: boolean;
+    try {
+      hasContext = SessionUtils.hasContext(context);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+    // Errors raised by the call's own timer or signal end the call instead of being retried
+    const deadlineErrors = new WeakSet<Error>();
+    const exec =
+      signal || timeoutMs || hasContext
+        ? () =>
+            this.queryOnClient<R, I>(
+              config,
+              values,
+              signal,
+              timeoutMs,
+              hasContext ? context : undefined,
+              deadlineErrors,
+            )
+        : () => this.localPool.query<R, I>(config as any, values as any) as Promise<QueryResult<R>>;
+    const run = () =>
+      this.executeWithBreakerAndRetry<QueryResult<R>>(
+        exec,
+        'main.query',
+        (error) => !deadlineErrors.has(error as Error),
+      );
+    if (this.config.typeParsers) {
+      return this.resolveTypeParsers().then(run);
+    }
+    return run();
+  }
+
+  /**
+   * Runs a main-thread query on a dedicated connection so that aborting the
+   * signal or reaching the timeout can cancel the statement on its backend, and
+   * a session context can be applied in a transaction around it.
+   */
+  private async queryOnClient<R extends QueryResultRow, I extends any[]>(
+    config: string | QueryConfig<I>,
+    values: I | undefined,
+    signal: AbortSignal | undefined,
+    timeoutMs: number | undefined,
+    context?: SessionContext,
+    deadlineErrors?: WeakSet<Error>,
   ): Promise<QueryResult<R>> {
-    const exec = () => this.localPool.query<R, I>(config as any, values as any) as Promise<QueryResult<R>>;
-    return this.executeWithBreakerAndRetry<QueryResult<R>>(exec, 'main.query');
+    CancelUtils.throwIfAborted(signal);
+    const client = await this.localPool.connect();
+    if (signal?.aborted) {
+      client.release();
+      throw CancelUtils.createCancelledError(signal);
+    }
+
+    return new Promise<QueryResult<R>>((resolve, reject) => {
+      let cancelling: Promise<unknown> = Promise.resolve();
+      const cancel = (error: PgParallelError) => {
+        deadlineErrors?.add(error);
+        cancelling = CancelUtils.cancelBackend(this.config, (client as any).processID).catch((err) => {
+          this.logger.warn?.('Failed to cancel backend query', { message: err?.message });
+        });
+        reject(error);
+      };
+      const abort = () => cancel(CancelUtils.createCancelledError(signal));
+      signal?.addEventListener('abort', abort, { once: true });
+      const timer = timeoutMs
+        ? setTimeout(() => cancel(CancelUtils.createTimeoutError(timeoutMs)), timeoutMs)
+        : undefined;
+
+      let uncleared = false;
+      const run = () => client.query<R, I>(config as any, values as any);
+      (context
+        ? SessionUtils.runWithContext(
+            (text, params) => client.query(text, params),
+            TransactionUtils.createScope(),
+            context,
+            run,
+            () => (uncleared = true),
+          )
+        : run()
+      )
+        .then(resolve, reject)
+        .finally(async () => {
+          if (timer) clearTimeout(timer);
+          signal?.removeEventListener('abort', abort);
+          // Hold the connection until the cancel request is done so it cannot hit the next statement
+          await cancelling;
+          client.release(uncleared);
+        });
+    });
   }
 
-  public task<T, A extends any[]>(fn: (...args: A) => T | Promise<T>, args: A): Promise<T> {
+  public task<T, A extends any[]>(fn: (...args: A) => T | Promise<T>, args: A, options?: TaskOptions): Promise<T>;
+  public task<K extends keyof TaskRegistry>(name: K, args: TaskArgs<K>, options?: TaskOptions): Promise<TaskResult<K>>;
+  public task<T = any>(name: string, args: any[], options?: TaskOptions): Promise<T>;
+  public task<T>(
+    fn: ((...args: any[]) => T | Promise<T>) | string,
+    args: any[],
+    options: TaskOptions = {},
+  ): Promise<T> {
+    if (typeof fn === 'string' && !this.tasks.has(fn)) {
+      return Promise.reject(new Error(`Task '${fn}' is not registered.`));
+    }
+    let asyncContext: AsyncContextValues | undefined;
+    try {
+      asyncContext = AsyncContextUtils.capture(this.config.asyncContext);
+    } catch (error) {
+      return Promise.reject(error);
+    }
     const exec = async () => {
-      if (this.isShutdown) {
-        throw new Error('No workers available. Instance has been shut down.');
-      }
-      await this.ensureWorkersInitialized();
-      if (this.workers.length === 0) {
-        throw new Error("No workers available. Configure 'maxWorkers' to be greater than 0 to use this feature.");
+      const workerInfo = await this.acquireWorker(options.signal, options.priority);
+      if (!workerInfo) {
+        const contextArgs = await this.loadCallerContext();
+        const taskFunction = typeof fn === 'string' ? await this.loadCallerTask(fn) : fn;
+        return AsyncContextUtils.run(asyncContext, undefined, async () => taskFunction(...args, ...contextArgs) as T);
       }
-      const workerInfo = this.getNextWorker();
-      workerInfo.isBusy = true;
+
       const requestId = randomUUID();
-      const promise = new Promise<T>((resolve, reject) => {
-        this.pendingRequests.set(requestId, { resolve, reject });
-      });
-      workerInfo.worker.postMessage({
-        type: 'task',
-        requestId,
-        payload: { task: fn.toString(), args },
+      const promise = this.createRequest<T>(requestId, workerInfo, {
+        signal: options.signal,
+        onAbort: () => {
+          if (options.terminateOnAbort) this.retireWorker(workerInfo, 'task cancelled');
+        },
+        // A task that outlives its timeout is assumed to be stuck, and so is its thread
+        timeoutMs: this.resolveTimeout(options),
+        onTimeout: () => this.retireWorker(workerInfo, 'task timed out'),
+        // An aborted task keeps running on its thread, so the slot stays taken until it ends
+        onSettled: () => this.releaseWorker(workerInfo),
       });
+      try {
+        const { value, hasBuffers } = TransportUtils.prepareResult(args);
+        const source = typeof fn === 'string' ? { taskName: fn } : { task: fn.toString() };
+        workerInfo.worker.postMessage(
+          {
+            type: 'task',
+            requestId,
+            payload: { ...source, args: value, hasBuffers, transferResult: options.transferResult },
+            asyncContext,
+          },
+          TransportUtils.collectTransferables(args),
+        );
+      } catch (error) {
+        // Nothing reached the worker, so the request ends here
+        this.pendingRequests.get(requestId)?.reject(error);
+      }
       return promise;
     };
     return exec();
   }
 
-  public worker<T>(task: ((client: IParallelClient) => Promise<T>) | WorkerFileTask): Promise<T> {
-    const exec = async () => {
-      if (this.isShutdown) {
-        throw new Error('No workers available. Instance has been shut down.');
+  public run<K extends keyof TaskRegistry>(name: K, ...args: TaskArgs<K>): Promise<TaskResult<K>>;
+  public run<T = any>(name: string, ...args: any[]): Promise<T>;
+  public run(name: string, ...args: any[]): Promise<unknown> {
+    return this.task(name, args);
+  }
+
+  public registerTask(name: string, modulePath: string, exportName?: string): void {
+    const reference = TaskUtils.validateRegistration(name, { modulePath, exportName });
+    this.tasks.set(name, reference);
+    this.callerTasks.delete(name);
+    // Workers started from now on load it with the rest of the registry
+    for (const workerInfo of this.workers) {
+      workerInfo.worker.postMessage({ type: 'register', payload: { name, reference } });
+    }
+  }
+
+  /**
+   * Loads a registered task on the calling thread, for the `caller-runs`
+   * rejection policy.
+   */
+  private async loadCallerTask(name: string): Promise<RegisteredTask> {
+    let loaded = this.callerTasks.get(name);
+    if (!loaded) {
+      loaded = TaskUtils.loadTask(name, this.tasks.get(name)!, this.config.taskLoader);
+      this.callerTasks.set(name, loaded);
+    }
+    return TaskUtils.resolveTask(name, await loaded);
+  }
+
+  /**
+   * Reads a query through a cursor in a worker.
+   */
+  public async *stream<R extends QueryResultRow = any>(
+    text: string,
+    values?: any[],
+    options: StreamOptions = {},
+  ): AsyncGenerator<R, void, undefined> {
+    const batchSize = CursorUtils.resolveBatchSize(options.batchSize);
+    const workerInfo = await this.acquireWorker(options.signal, options.priority);
+    if (!workerInfo) {
+      yield* this.streamOnCaller<R>(text, values, batchSize);
+      return;
+    }
+
+    for await (const rows of this.pullFromWorker<R>(workerInfo, 'stream', { text, values, batchSize }, options)) {
+      yield* rows;
+    }
+  }
+
+  /**
+   * Loads data with `COPY ... FROM STDIN` on a worker connection. Chunks are
+   * sent one at a time, each once the worker has written the previous one.
+   */
+  public async copyFrom(table: string, source: CopySource, options: ParallelCopyFromOptions = {}): Promise<CopyResult> {
+    const statement = CopyUtils.buildCopyFromStatement(table, options);
+    const workerInfo = await this.acquireWorker(options.signal, options.priority);
+    if (!workerInfo) {
+      return this.copyOnCaller((client) => CopyUtils.copyFrom(client, statement, source, options.format));
+    }
+
+    const requestId = randomUUID();
+    let credits = 0;
+    let wake: (() => void) | undefined;
+    let settled = false;
+    const cancel = () => workerInfo.worker.postMessage({ type: 'cancel', requestId });
+    const promise = this.createRequest<{ rowCount: number }>(requestId, workerInfo, {
+      signal: options.signal,
+      onAbort: cancel,
+      timeoutMs: this.resolveTimeout(options),
+      onTimeout: cancel,
+      onReady: () => {
+        credits += 1;
+        wake?.();
+      },
+    });
+    promise
+      .catch(() => undefined)
+      .finally(() => {
+        settled = true;
+        wake?.();
+      });
+    // Resolves once the worker can take the next chunk, or with false when the copy has ended
+    const ready = async () => {
+      while (credits === 0 && !settled) {
+        await new Promise<void>((resolve) => (wake = resolve));
+        wake = undefined;
       }
-      await this.ensureWorkersInitialized();
-      if (this.workers.length === 0) {
-        throw new Error("No workers available. Configure 'maxWorkers' to be greater than 0 to use this feature.");
+      credits -= 1;
+      return !settled;
+    };
+
+    workerInfo.worker.postMessage({ type: 'copy-from', requestId, payload: { text: statement } });
+    try {
+      let bytes = 0;
+      try {
+        for await (const chunk of CopyUtils.encodeSource(source, options.format)) {
+          if (!(await ready())) break;
+          bytes += chunk.length;
+          workerInfo.worker.postMessage({ type: 'copy-data', requestId, payload: chunk });
+        }
+      } catch (error) {
+        // The source failed: abort the copy so nothing is loaded
+        if (!settled) {
+          cancel();
+          await promise.catch(() => undefined);
+        }
+        throw error;
       }
-      const workerInfo = this.getNextWorker();
-      workerInfo.isBusy = true;
-      const requestId = randomUUID();
-      const promise = new Promise<T>((resolve, reject) => {
-        this.pendingRequests.set(requestId, { resolve, reject });
+      workerInfo.worker.postMessage({ type: 'copy-end', requestId });
+      const { rowCount } = await promise;
+      return { rowCount, bytes };
+    } finally {
+      this.releaseWorker(workerInfo);
+    }
+  }
+
+  /**
+   * Exports a query with `COPY ... TO STDOUT` on a worker connection, piping
+   * the data into `destination`.
+   */
+  public async copyTo(
+    query: string,
+    destination: NodeJS.WritableStream,
+    options: ParallelCopyOptions = {},
+  ): Promise<CopyResult> {
+    const statement = CopyUtils.buildCopyToStatement(query, options);
+    const workerInfo = await this.acquireWorker(options.signal, options.priority);
+    if (!workerInfo) {
+      return this.copyOnCaller((client) => CopyUtils.copyTo(client, statement, destination));
+    }
+
+    const batches = this.pullFromWorker<Buffer>(workerInfo, 'copy-to', { text: statement }, options);
+    let rowCount = 0;
+    let bytes = 0;
+    try {
+      await pipeline(
+        (async function* () {
+          let next: IteratorResult<Buffer[], { rowCount: number }>;
+          while (!(next = await batches.next()).done) {
+            for (const chunk of next.value) {
+              bytes += chunk.length;
+              yield chunk;
+            }
+          }
+          rowCount = next.value.rowCount;
+        })(),
+        destination,
+      );
+    } finally {
+      // Stops the copy in the worker when the destination fails
+      await batches.return(undefined);
+    }
+    return { rowCount, bytes };
+  }
+
+  /**
+   * Runs a job that sends its output in batches, asking the worker for the
+   * next batch as soon as the consumer starts on the current one so at most one
+   * batch waits on the main thread. The worker is released when the job ends.
+   * @returns The final result posted by the worker
+   */
+  private async *pullFromWorker<T>(
+    workerInfo: WorkerInfo,
+    type: 'stream' | 'copy-to',
+    payload: Record<string, unknown>,
+    options: OperationOptions,
+  ): AsyncGenerator<T[], any, undefined> {
+    const requestId = randomUUID();
+    const batches: T[][] = [];
+    let wake: (() => void) | undefined;
+    let settled = false;
+    let result: unknown;
+    let failure: unknown;
+    const cancel = () => workerInfo.worker.postMessage({ type: 'cancel', requestId });
+    const promise = this.createRequest<unknown>(requestId, workerInfo, {
+      signal: options.signal,
+      onAbort: cancel,
+      timeoutMs: this.resolveTimeout(options),
+      onTimeout: cancel,
+      onBatch: (batch) => {
+        batches.push(batch);
+        wake?.();
+      },
+    });
+    promise
+      .then(
+        (value) => {
+          result = value;
+        },
+        (error) => {
+          failure = error;
+        },
+      )
+      .finally(() => {
+        settled = true;
+        wake?.();
       });
 
-      if (typeof task === 'function') {
-        const clientId = randomUUID();
-        const client = new ParallelClient(clientId, this, workerInfo.worker);
-        const payload = { task: task.toString(), clientId };
-        workerInfo.worker.postMessage({ type: 'worker', requestId, payload });
+    workerInfo.worker.postMessage({ type, requestId, payload });
+    try {
+      while (true) {
+        const batch = batches.shift();
+        if (batch) {
+          if (!settled) workerInfo.worker.postMessage({ type: 'stream-next', requestId });
+          yield batch;
+        } else if (settled) {
+          if (failure) throw failure;
+          return result;
+        } else {
+          await new Promise<void>((resolve) => (wake = resolve));
+          wake = undefined;
+        }
+      }
+    } finally {
+      // The consumer stopped early: end the job in the worker before it takes new work
+      if (!settled) {
+        cancel();
+        await promise.catch(() => undefined);
+      }
+      this.releaseWorker(workerInfo);
+    }
+  }
+
+  /**
+   * Runs a copy on a connection from the main pool, for the `caller-runs`
+   * rejection policy.
+   */
+  private async copyOnCaller(run: (client: PoolClient) => Promise<CopyResult>): Promise<CopyResult> {
+    const client = await this.localPool.connect();
+    let failed = false;
+    try {
+      return await run(client);
+    } catch (error) {
+      failed = true;
+      throw error;
+    } finally {
+      // An interrupted copy to the caller may leave the connection unusable
+      client.release(failed);
+    }
+  }
+
+  /**
+   * Reads a query through a cursor on a connection from the main pool, for the
+   * `caller-runs` rejection policy.
+   */
+  private async *streamOnCaller<R>(
+    text: string,
+    values: any[] | undefined,
+    batchSize: number,
+  ): AsyncGenerator<R, void, undefined> {
+    const client = await this.localPool.connect();
+    let failed = false;
+    try {
+      yield* CursorUtils.streamRows<R>(
+        (statement, params) => client.query(statement, params),
+        TransactionUtils.createScope(),
+        text,
+        values,
+        batchSize,
+      );
+    } catch (error) {
+      failed = true;
+      throw error;
+    } finally {
+      // A connection whose cursor could not be cleaned up may still be inside its transaction
+      client.release(failed);
+    }
+  }
+
+  /**
+   * Processes a table in partitions, each read through a cursor by a worker job.
+   */
+  public async scan<T, R extends QueryResultRow = any>(
+    options: ScanOptions,
+    processor: ScanProcessor<R, T>,
+  ): Promise<ScanResult<T>> {
+    const batchSize = CursorUtils.resolveBatchSize(options.batchSize);
+    const count = ScanUtils.resolvePartitionCount(options.partitions ?? this.getSlotCount());
+    CancelUtils.throwIfAborted(options.signal);
+    const partitions = await ScanUtils.planPartitions((text, values) => this.query(text, values), options, count);
+    const progress: ScanPartitionProgress[] = partitions.map(({ index, lower, upper }) => ({
+      index,
+      lower,
+      upper,
+      rows: 0,
+      batches: 0,
+      done: false,
+    }));
+
+    // A failed partition cancels the others; so does the caller's signal
+    const controller = new AbortController();
+    const abort = () => controller.abort(options.signal?.reason);
+    options.signal?.addEventListener('abort', abort, { once: true });
+    let failure: unknown;
+    let completed = 0;
+    let rows = 0;
+    try {
+      const settled = await Promise.allSettled(
+        partitions.map(async (partition) => {
+          try {
+            const outcome = await this.dispatchWorkerJob<ScanPartitionOutcome<T>>(
+              'worker',
+              { scan: { text: partition.text, values: partition.values, batchSize }, processor },
+              { signal: controller.signal, timeoutMs: options.timeoutMs, priority: options.priority },
+            );
+            const entry = progress[partition.index];
+            Object.assign(entry, { rows: outcome.rows, batches: outcome.batches, done: true });
+            completed += 1;
+            rows += outcome.rows;
+            options.onProgress?.({ partition: { ...entry }, completed, total: partitions.length, rows });
+            return outcome.results;
+          } catch (error) {
+            failure ??= error;
+            controller.abort();
+            throw error;
+          }
+        }),
+      );
+      if (failure) throw failure;
+      const results = settled.flatMap((outcome) => (outcome.status === 'fulfilled' ? outcome.value : []));
+      return { results, partitions: progress, rows };
+    } finally {
+      options.signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  /**
+   * Applies a function to every item in worker tasks, a chunk of items at a time.
+   */
+  public async map<T, R>(
+    items: Iterable<T>,
+    fn: (item: T, index: number) => R | Promise<R>,
+    options: MapOptions = {},
+  ): Promise<R[]> {
+    return (await this.runMap(items, fn, options, false)) as R[];
+  }
+
+  public async mapSettled<T, R>(
+    items: Iterable<T>,
+    fn: (item: T, index: number) => R | Promise<R>,
+    options: MapOptions = {},
+  ): Promise<PromiseSettledResult<R>[]> {
+    return (await this.runMap(items, fn, options, true)) as PromiseSettledResult<R>[];
+  }
+
+  public async reduce<T, A>(
+    items: Iterable<T>,
+    reducer: (accumulator: A, item: T) => A | Promise<A>,
+    initial: A,
+    options: ReduceOptions<A> = {},
+  ): Promise<A> {
+    const list = Array.from(items);
+    const concurrency = MapUtils.resolveConcurrency(options.concurrency ?? this.getSlotCount());
+    const chunks = MapUtils.chunk(list, MapUtils.resolveChunkSize(options.chunkSize, list.length, concurrency));
+    const source = reducer.toString();
+    const taskOptions = { signal: options.signal, timeoutMs: options.timeoutMs, priority: options.priority };
+
+    const completed = await MapUtils.runChunks(chunks, concurrency, (chunk) =>
+      this.task(MapUtils.reduceChunk, [source, chunk.items, initial], taskOptions),
+    );
+    const partials = completed
+      .sort((a, b) => a.chunk.index - b.chunk.index)
+      .map(({ outcome }) => (outcome as PromiseFulfilledResult<A>).value);
+    if (partials.length === 0) return initial;
+
+    const combine = options.combine ?? (reducer as unknown as (left: A, right: A) => A | Promise<A>);
+    let accumulator = partials[0];
+    for (const partial of partials.slice(1)) accumulator = await combine(accumulator, partial);
+    return accumulator;
+  }
+
+  /**
+   * Writes rows in batches, each batch being a worker transaction.
+   */
+  public async bulkInsert(
+    table: string,
+    rows: Iterable<Record<string, unknown> | unknown[]>,
+    options: BulkInsertOptions = {},
+  ): Promise<BulkInsertResult> {
+    const list = Array.from(rows);
+    const result: BulkInsertResult = { inserted: 0, updated: 0, skipped: 0, batches: 0, failed: [] };
+    if (list.length === 0) return result;
+
+    const columns = BulkUtils.resolveColumns(list[0], options);
+    const batchSize = BulkUtils.resolveBatchSize(options.batchSize, columns.length, options.method);
+    const parallelism = MapUtils.resolveConcurrency(options.parallelism ?? this.getSlotCount());
+    const columnTypes =
+      options.method === 'unnest'
+        ? await BulkUtils.loadColumnTypes((text, values) => this.query(text, values), table, columns)
+        : undefined;
+    const jobOptions = { signal: options.signal, timeoutMs: options.timeoutMs, priority: options.priority };
+
+    const batches = MapUtils.chunk(list, batchSize);
+    const completed = await MapUtils.runChunks(
+      batches,
+      parallelism,
+      async (batch) => {
+        const statement = BulkUtils.buildInsertStatement(table, columns, batch.items, options, columnTypes);
+        // A transaction of its own re-runs the batch on deadlocks between concurrent upserts
+        const { rows: counts } = await this.dispatchWorkerJob<QueryResult>('transaction', { statement }, jobOptions);
+        return counts[0] as { inserted: number; updated: number };
+      },
+      true,
+    );
+    CancelUtils.throwIfAborted(options.signal);
+
+    for (const { chunk, outcome } of completed.sort((a, b) => a.chunk.index - b.chunk.index)) {
+      result.batches += 1;
+      if (outcome.status === 'fulfilled') {
+        result.inserted += outcome.value.inserted;
+        result.updated += outcome.value.updated;
+        result.skipped += chunk.items.length - outcome.value.inserted - outcome.value.updated;
       } else {
-        const payload = { workerFile: task };
-        workerInfo.worker.postMessage({ type: 'worker', requestId, payload });
+        result.failed.push({
+          batch: chunk.index,
+          offset: chunk.offset,
+          rows: chunk.items.length,
+          error: outcome.reason,
+        });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Runs `fn` over the items in chunks of `task()` calls, returning the results
+   * or, with `settle`, the outcome of every item.
+   */
+  private async runMap<T, R>(
+    items: Iterable<T>,
+    fn: (item: T, index: number) => R | Promise<R>,
+    options: MapOptions,
+    settle: boolean,
+  ): Promise<unknown[]> {
+    const list = Array.from(items);
+    const concurrency = MapUtils.resolveConcurrency(options.concurrency ?? this.getSlotCount());
+    const chunks = MapUtils.chunk(list, MapUtils.resolveChunkSize(options.chunkSize, list.length, concurrency));
+    const source = fn.toString();
+    const taskOptions = { signal: options.signal, timeoutMs: options.timeoutMs, priority: options.priority };
+
+    const completed = await MapUtils.runChunks(
+      chunks,
+      concurrency,
+      (chunk) => this.task(MapUtils.mapChunk, [source, chunk.items, chunk.offset, settle], taskOptions),
+      settle,
+    );
+    if (options.ordered !== false) completed.sort((a, b) => a.chunk.index - b.chunk.index);
+    return completed.flatMap(({ chunk, outcome }) =>
+      outcome.status === 'fulfilled'
+        ? outcome.value
+        : // The whole chunk failed, e.g. on a timeout: every item of it shares the error
+          chunk.items.map(() => ({ status: 'rejected', reason: outcome.reason })),
+    );
+  }
+
+  public worker<A extends any[], R>(task: TaskDefinition<A, R>, args: A, options?: WorkerOptions): Promise<R>;
+  public worker<T>(
+    task: (client: IParallelClient, context: WorkerContext) => Promise<T>,
+    options?: WorkerOptions,
+  ): Promise<T>;
+  public worker<T>(task: WorkerFileTask, options?: WorkerOptions): Promise<T>;
+  public worker<T>(
+    task: ((client: IParallelClient, context: WorkerContext) => Promise<T>) | WorkerFileTask,
+    ...rest: any[]
+  ): Promise<T> {
+    if (TaskUtils.isTaskDefinition(task)) {
+      return this.dispatchWorkerJob<T>('worker', TaskUtils.toDefinedTaskCall(task, rest[0] ?? []), rest[1] ?? {});
+    }
+    return this.dispatchWorkerJob<T>('worker', task, rest[0] ?? {});
+  }
+
+  public transaction<T>(
+    task: ((client: IParallelClient, context: WorkerContext) => Promise<T>) | WorkerFileTask,
+    options: TransactionOptions = {},
+  ): Promise<T> {
+    // Validate the options on the calling thread so mistakes surface before any worker is involved
+    try {
+      TransactionUtils.buildBeginStatement(options);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+    const { signal, timeoutMs, priority, transferResult, context, ...transactionOptions } = options;
+    return this.dispatchWorkerJob<T>(
+      'transaction',
+      task,
+      { signal, timeoutMs, priority, transferResult, context },
+      transactionOptions,
+    );
+  }
+
+  /**
+   * Sends a client-scoped job (`worker` or `transaction`) to the next available worker.
+   */
+  private dispatchWorkerJob<T>(
+    type: 'worker' | 'transaction',
+    task:
+      | ((client: IParallelClient, context: WorkerContext) => Promise<T>)
+      | WorkerFileTask
+      | ScanTask
+      | StatementTask
+      | DefinedTaskCall,
+    options: WorkerOptions,
+    transactionOptions: TransactionOptions = {},
+  ): Promise<T> {
+    const { signal } = options;
+    const timeoutMs = this.resolveTimeout(options);
+    let context: SessionContext | undefined;
+    let asyncContext: AsyncContextValues | undefined;
+    try {
+      context = SessionUtils.hasContext(options.context) ? options.context : undefined;
+      asyncContext = AsyncContextUtils.capture(this.config.asyncContext);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+    const extra = {
+      ...(type === 'transaction' ? { options: transactionOptions } : {}),
+      transferResult: options.transferResult,
+      context,
+    };
+    const exec = async () => {
+      const workerInfo = await this.acquireWorker(signal, options.priority);
+      if (!workerInfo) {
+        return AsyncContextUtils.run(asyncContext, undefined, () =>
+          this.runOnCaller<T>(type, task, transactionOptions, context),
+        );
       }
 
+      const requestId = randomUUID();
+      let graceTimer: NodeJS.Timeout | undefined;
+      // The worker cancels the statement running on the job's connection, so
+      // the thread and the other jobs it runs are left alone. A job stuck in
+      // synchronous code never sees the message, so its thread is retired.
+      const cancel = (reason: string) => {
+        workerInfo.worker.postMessage({ type: 'cancel', requestId });
+        graceTimer = setTimeout(() => this.retireWorker(workerInfo, reason), PgParallel.CANCEL_GRACE_MS);
+      };
+      const promise = this.createRequest<T>(requestId, workerInfo, {
+        signal,
+        onAbort: () => cancel(`${type} job cancelled`),
+        timeoutMs,
+        onTimeout: () => cancel(`${type} job timed out`),
+        onSettled: () => {
+          if (graceTimer) clearTimeout(graceTimer);
+          this.releaseWorker(workerInfo);
+        },
+      });
+
+      try {
+        if (typeof task === 'function') {
+          const clientId = randomUUID();
+          const client = new ParallelClient(clientId, this, workerInfo.worker);
+          const payload = { ...extra, task: task.toString(), clientId };
+          workerInfo.worker.postMessage({ type, requestId, payload, asyncContext });
+        } else if ('scan' in task) {
+          const payload = { ...extra, scan: { ...task.scan, processor: task.processor.toString() } };
+          workerInfo.worker.postMessage({ type, requestId, payload, asyncContext });
+        } else if ('statement' in task) {
+          const payload = { ...extra, statement: task.statement };
+          workerInfo.worker.postMessage({ type, requestId, payload, asyncContext });
+        } else if ('definedTask' in task) {
+          const { value, hasBuffers } = TransportUtils.prepareResult(task.definedTask.args);
+          const payload = { ...extra, definedTask: { ...task.definedTask, args: value }, hasBuffers };
+          workerInfo.worker.postMessage(
+            { type, requestId, payload, asyncContext },
+            TransportUtils.collectTransferables(task.definedTask.args),
+          );
+        } else {
+          const { value, hasBuffers } = TransportUtils.prepareResult(task.args);
+          const payload = { ...extra, workerFile: { ...task, args: value }, hasBuffers };
+          workerInfo.worker.postMessage(
+            { type, requestId, payload, asyncContext },
+            TransportUtils.collectTransferables(task.args),
+          );
+        }
+      } catch (error) {
+        // Nothing reached the worker, so the request ends here
+        this.pendingRequests.get(requestId)?.reject(error);
+      }
       return promise;
     };
     return exec();
   }
 
+  /**
+   * Runs a client-scoped job on the calling thread with a connection from the
+   * main pool, for the `caller-runs` rejection policy.
+   */
+  private async runOnCaller<T>(
+    type: 'worker' | 'transaction',
+    task:
+      | ((client: IParallelClient, context: WorkerContext) => Promise<T>)
+      | WorkerFileTask
+      | ScanTask
+      | StatementTask
+      | DefinedTaskCall,
+    transactionOptions: TransactionOptions,
+    context?: SessionContext,
+  ): Promise<T> {
+    const body = await this.resolveCallerBody<T>(task);
+    const poolClient = await this.localPool.connect();
+    const query = (text: string, values?: unknown[]) => poolClient.query(text, values);
+    const clients: LocalClient[] = [];
+    const createClient = (scope: TransactionScope) => {
+      const client = new LocalClient(randomUUID(), poolClient, scope);
+      clients.push(client);
+      return client;
+    };
+    let uncleared = false;
+    try {
+      if (type === 'transaction') {
+        return await TransactionUtils.runTransaction(
+          query,
+          transactionOptions,
+          this.config.retry,
+          async () => {
+            if (context) await SessionUtils.applyContext(query, context);
+            return body(createClient(TransactionUtils.createScope(1)));
+          },
+          'main.transaction',
+          this.logger,
+        );
+      }
+      const scope = TransactionUtils.createScope();
+      if (context) {
+        return await SessionUtils.runWithContext(
+          query,
+          scope,
+          context,
+          () => body(createClient(scope)),
+          () => (uncleared = true),
+        );
+      }
+      return await body(createClient(scope));
+    } catch (error) {
+      throw ErrorUtils.wrapError(error);
+    } finally {
+      poolClient.release(uncleared || clients.some((client) => client.broken));
+    }
+  }
+
+  /**
+   * Resolves the function a client-scoped job runs on the calling thread.
+   */
+  private async resolveCallerBody<T>(
+    task:
+      | ((client: IParallelClient, context: WorkerContext) => Promise<T>)
+      | WorkerFileTask
+      | ScanTask
+      | StatementTask
+      | DefinedTaskCall,
+  ): Promise<(client: IParallelClient) => Promise<T>> {
+    if (typeof task === 'function') {
+      const contextArgs = await this.loadCallerContext();
+      return (client) => (task as (...args: any[]) => Promise<T>)(client, ...contextArgs);
+    }
+    if ('scan' in task) {
+      return (client) => ScanUtils.processPartition(client, task.scan, task.processor) as Promise<T>;
+    }
+    if ('statement' in task) {
+      return (client) => client.query(task.statement.text, task.statement.values) as Promise<T>;
+    }
+    const contextArgs = await this.loadCallerContext();
+    if ('definedTask' in task) {
+      const { args } = task.definedTask;
+      return TaskUtils.loadDefinedTask(
+        { ...task.definedTask, args: [...args, ...contextArgs] },
+        this.config.taskLoader,
+      );
+    }
+    return TaskUtils.loadFileTask({ ...task, args: [...(task.args ?? []), ...contextArgs] }, this.config.taskLoader);
+  }
+
+  /**
+   * Runs the `workerSetup` hook on the calling thread the first time a job
+   * falls back to it, for the `caller-runs` rejection policy.
+   * @returns The arguments passing the context to tasks, empty without a hook
+   */
+  private async loadCallerContext(): Promise<unknown[]> {
+    if (!this.config.workerSetup) return [];
+    this.callerContext ??= TaskUtils.runSetup(this.config.workerSetup, this.config.taskLoader);
+    return [await this.callerContext];
+  }
+
+  /**
+   * Reserves a free worker for a new job, starting the pool on first use. When
+   * every worker is busy the job waits in the queue; once the queue holds
+   * `maxQueueSize` jobs the rejection policy decides what happens.
+   * @returns The reserved worker, or `undefined` when the `caller-runs` policy
+   * hands the job back to the calling thread
+   */
+  private async acquireWorker(signal?: AbortSignal, priority?: Priority): Promise<WorkerInfo | undefined> {
+    const level = JobQueue.resolvePriority(priority);
+    if (this.isShutdown) {
+      throw new Error('No workers available. Instance has been shut down.');
+    }
+    await this.ensureWorkersInitialized();
+    if (this.workers.length === 0) {
+      if ((this.config.maxWorkers ?? cpus().length) === 0) {
+        throw new Error("No workers available. Configure 'maxWorkers' to be greater than 0 to use this feature.");
+      }
+      throw new PgParallelError('No workers available. All workers have crashed.', 'CONNECTION');
+    }
+    CancelUtils.throwIfAborted(signal);
+
+    // Jobs already waiting go first
+    const workerInfo = this.queue.size === 0 ? this.getNextWorker() : undefined;
+    if (workerInfo) {
+      workerInfo.activeJobs += 1;
+      return workerInfo;
+    }
+
+    if (this.queue.size >= this.maxQueueSize) {
+      if (this.rejectionPolicy === 'caller-runs') return undefined;
+
+      const oldest = this.rejectionPolicy === 'drop-oldest' ? this.queue.shiftOldest() : undefined;
+      if (!oldest) {
+        throw new PgParallelError(`Queue is full (maxQueueSize: ${this.maxQueueSize}).`, 'OVERLOADED');
+      }
+      oldest.reject(new PgParallelError('Dropped from the queue to make room for newer work.', 'OVERLOADED'));
+    }
+    return this.enqueue(level, signal);
+  }
+
+  /**
+   * Queues a job until a worker becomes free, the signal aborts or
+   * `queueTimeoutMs` elapses.
+   */
+  private enqueue(priority: number, signal?: AbortSignal): Promise<WorkerInfo> {
+    return new Promise<WorkerInfo>((resolve, reject) => {
+      const timeoutMs = this.config.queueTimeoutMs;
+      let timer: NodeJS.Timeout | undefined;
+      const cleanup = () => {
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener('abort', abort);
+      };
+      const job: QueuedJob = {
+        resolve: (workerInfo) => {
+          cleanup();
+          resolve(workerInfo);
+        },
+        reject: (reason) => {
+          cleanup();
+          reject(reason);
+          this.notifyIdle();
+        },
+      };
+      const abort = () => {
+        if (this.queue.remove(job)) job.reject(CancelUtils.createCancelledError(signal));
+      };
+
+      signal?.addEventListener('abort', abort, { once: true });
+      if (timeoutMs && timeoutMs > 0) {
+        timer = setTimeout(() => {
+          if (!this.queue.remove(job)) return;
+          job.reject(new PgParallelError(`Timed out after ${timeoutMs}ms waiting in the queue.`, 'TIMEOUT'));
+        }, timeoutMs);
+      }
+      this.queue.push(job, priority);
+    });
+  }
+
+  /**
+   * Frees a slot on a worker once its job has settled and hands it to the next
+   * queued job.
+   */
+  private releaseWorker(workerInfo: WorkerInfo): void {
+    workerInfo.activeJobs -= 1;
+    this.drainQueue();
+    this.notifyIdle();
+  }
+
+  /**
+   * Hands free workers to queued jobs in queue order.
+   */
+  private drainQueue(): void {
+    while (this.queue.size > 0) {
+      const workerInfo = this.getNextWorker();
+      if (!workerInfo) return;
+      workerInfo.activeJobs += 1;
+      this.queue.shift()!.resolve(workerInfo);
+    }
+  }
+
+  /**
+   * Rejects every job waiting in the queue.
+   */
+  private rejectQueued(error: Error): void {
+    for (const job of this.queue.clear()) {
+      job.reject(error);
+    }
+  }
+
+  /**
+   * Returns a promise that resolves once no job is queued or running on a worker.
+   */
+  private whenIdle(): Promise<void> {
+    if (this.isIdle()) return Promise.resolve();
+    return new Promise<void>((resolve) => this.idleWaiters.add(resolve));
+  }
+
+  private isIdle(): boolean {
+    return this.queue.size === 0 && this.workers.every((w) => w.activeJobs === 0);
+  }
+
+  private notifyIdle(): void {
+    if (this.idleWaiters.size === 0 || !this.isIdle()) return;
+    this.idleWaiters.forEach((resolve) => resolve());
+    this.idleWaiters.clear();
+  }
+
+  /**
+   * Returns the current number of workers, busy workers and queued jobs.
+   */
+  public getStats(): PgParallelStats {
+    return {
+      workers: this.workers.length,
+      busyWorkers: this.workers.filter((w) => w.activeJobs > 0).length,
+      activeJobs: this.workers.map((w) => w.activeJobs),
+      queued: this.queue.size,
+    };
+  }
+
   proxyQueryToWorker<R extends QueryResultRow, I extends any[]>(
     worker: Worker,
     clientId: string,
     config: string | QueryConfig<I>,
     values: I | undefined,
   ): Promise<QueryResult<R>> {
+    const workerInfo = this.workers.find((w) => w.worker === worker);
+    if (!workerInfo) {
+      return Promise.reject(new PgParallelError('Query failed: the worker is no longer available.', 'CONNECTION'));
+    }
     const requestId = randomUUID();
-    const promise = new Promise<QueryResult<R>>((resolve, reject) => {
-      this.pendingRequests.set(requestId, { resolve, reject });
-    });
+    const promise = this.createRequest<QueryResult<R>>(requestId, workerInfo);
 
     const payload = typeof config === 'object' ? { ...config } : { text: config, values };
     worker.postMessage({ type: 'query', clientId, requestId, payload });
     return promise;
   }
 
-  public async shutdown(): Promise<void> {
-    if (this.isShutdown) return;
-    this.isShutdown = true;
+  /**
+   * Stops accepting new work, closes the worker pools and the main pool, and
+   * stops the worker threads. Calling it again returns the same promise.
+   * @param options - Whether to drain queued and in-flight jobs first, and the deadline
+   */
+  public shutdown(options: ShutdownOptions = {}): Promise<void> {
+    if (!this.shutdownPromise) {
+      this.isShutdown = true;
+      this.shutdownPromise = this.closeGracefully(options);
+    }
+    return this.shutdownPromise;
+  }
 
-    await this.localPool.end();
-    await Promise.all(this.workers.map(({ worker }) => worker.terminate()));
+  private async closeGracefully(options: ShutdownOptions): Promise<void> {
+    const { drain = false, timeoutMs } = options;
+    const deadline = timeoutMs !== undefined ? Date.now() + timeoutMs : undefined;
+    const remaining = () => (deadline !== undefined ? Math.max(0, deadline - Date.now()) : undefined);
+
+    this.removeSignalHandlers();
+    this.respawnTimers.forEach((timer) => clearTimeout(timer));
+    this.respawnTimers.clear();
+
+    if (!drain) {
+      this.abortPending(this.createShutdownError());
+    } else {
+      if (this.workers.length === 0) this.rejectQueued(this.createShutdownError());
+      if (!(await settlesWithin(this.whenIdle(), remaining()))) {
+        this.logger.warn?.('Shutdown deadline exceeded, rejecting pending operations', { timeoutMs });
+        this.abortPending(new PgParallelError(`Shutdown deadline of ${timeoutMs}ms exceeded.`, 'TIMEOUT'));
+      }
+    }
+
+    if (!(await settlesWithin(this.localPool.end(), remaining()))) {
+      this.logger.warn?.('Main pool did not close before the shutdown deadline', { timeoutMs });
+    }
+
+    const workers = this.workers;
     this.workers = [];
+    await Promise.all(workers.map((w) => this.closeWorker(w, remaining() ?? PgParallel.WORKER_CLOSE_GRACE_MS)));
   }
 
-  private getNextWorker(): { worker: Worker; isBusy: boolean } {
-    for (let i = 0; i < this.workers.length; i++) {
-      const workerInfo = this.workers[this.currentWorkerIndex];
-      this.currentWorkerIndex = (this.currentWorkerIndex + 1) % this.workers.length;
-      if (!workerInfo.isBusy) {
-        return workerInfo;
-      }
+  /**
+   * Asks a worker to end its pool and exit, and terminates it if it has not
+   * exited within `graceMs`.
+   */
+  private async closeWorker(workerInfo: WorkerInfo, graceMs: number): Promise<void> {
+    workerInfo.retired = true;
+    const workerId = workerInfo.worker.threadId;
+    const exited = new Promise<void>((resolve) => workerInfo.worker.once('exit', () => resolve()));
+    workerInfo.worker.postMessage({ type: 'shutdown' });
+
+    if (!(await settlesWithin(exited, graceMs))) {
+      this.logger.warn?.('Worker did not exit in time, terminating', { workerId });
+      await workerInfo.worker.terminate();
+    }
+    this.rejectInFlight(workerInfo, this.createShutdownError());
+  }
+
+  /**
+   * Rejects every queued job and every request in flight on a worker.
+   */
+  private abortPending(error: PgParallelError): void {
+    this.rejectQueued(error);
+    this.workers.forEach((workerInfo) => this.rejectInFlight(workerInfo, error));
+  }
+
+  private createShutdownError(): PgParallelError {
+    return new PgParallelError('Operation aborted: the instance is shutting down.', 'CANCELLED');
+  }
+
+  /**
+   * Shuts the instance down when the process receives one of the configured
+   * signals, then re-raises the signal unless another listener handles it.
+   */
+  private installSignalHandlers(config: SignalHandlingConfig): void {
+    const { signals = ['SIGTERM', 'SIGINT'], drain = true, timeoutMs = 10_000 } = config;
+    for (const signal of signals) {
+      const handler = () => {
+        this.logger.info?.('Received signal, shutting down', { signal });
+        this.shutdown({ drain, timeoutMs })
+          .catch((error) => this.logger.error?.('Shutdown failed', { message: error?.message }))
+          .finally(() => {
+            if (process.listenerCount(signal) === 0) process.kill(process.pid, signal);
+          });
+      };
+      process.once(signal, handler);
+      this.signalHandlers.set(signal, handler);
     }
+  }
 
-    const workerInfo = this.workers[this.currentWorkerIndex];
-    this.currentWorkerIndex = (this.currentWorkerIndex + 1) % this.workers.length;
-    return workerInfo;
+  private removeSignalHandlers(): void {
+    this.signalHandlers.forEach((handler, signal) => process.removeListener(signal, handler));
+    this.signalHandlers.clear();
+  }
+
+  /**
+   * Picks the worker for the next job using the configured scheduler.
+   * @returns A worker with spare capacity, or `undefined` when every worker is at capacity
+   */
+  private getNextWorker(): WorkerInfo | undefined {
+    if (this.workers.length === 0) return undefined;
+    this.currentWorkerIndex %= this.workers.length;
+    const index = SchedulerUtils.selectWorker(
+      this.scheduler,
+      this.workers,
+      this.workerConcurrency,
+      this.currentWorkerIndex,
+    );
+    if (index === -1) return undefined;
+    this.currentWorkerIndex = (index + 1) % this.workers.length;
+    return this.workers[index];
   }
 
   /**
    * Executes an operation protected by a circuit breaker and optional retry.
    * Optimized for performance while maintaining all observability features.
+   * @param retryOn - Optional check an error must also pass to be retried
    */
-  private async executeWithBreakerAndRetry<T>(operation: () => Promise<T>, opName: string): Promise<T> {
+  private async executeWithBreakerAndRetry<T>(
+    operation: () => Promise<T>,
+    opName: string,
+    retryOn?: (error: unknown) => boolean,
+  ): Promise<T> {
     // Use cached config instead of method call
     const config = this.circuitBreakerConfig;
 
     // Fast path: Skip state check if breaker is closed and has no failures
     if (this.breakerState.state === 'CLOSED' && this.breakerState.consecutiveFailures === 0) {
       // Ultra-fast path for the most common case
-      return this.executeFastPath(operation, config, opName);
+      return this.executeFastPath(operation, config, opName, retryOn);
     }
 
     // Standard path with full state management
@@ -302,8 +1828,11 @@ export class PgParallel implements IPgParallel {
         CircuitBreakerUtils.onBreakerSuccess(this.breakerState, config, this.logger);
         return result;
       } catch (error) {
-        CircuitBreakerUtils.onBreakerFailure(this.breakerState, config, this.logger);
-        throw ErrorUtils.wrapError(error);
+        const wrapped = ErrorUtils.wrapError(error);
+        if (wrapped.category !== 'CANCELLED') {
+          CircuitBreakerUtils.onBreakerFailure(this.breakerState, config, this.logger);
+        }
+        throw wrapped;
       }
     };
 
@@ -311,7 +1840,17 @@ export class PgParallel implements IPgParallel {
     if (!this.hasRetryConfig) {
       return execOnce();
     }
-    return RetryUtils.executeWithRetry(execOnce, this.config.retry!, opName, this.logger);
+    return RetryUtils.executeWithRetry(execOnce, this.resolveRetryConfig(retryOn), opName, this.logger);
+  }
+
+  /**
+   * Narrows the instance's retry configuration with an operation's own check.
+   */
+  private resolveRetryConfig(retryOn?: (error: unknown) => boolean): RetryConfig {
+    const retry = this.config.retry!;
+    if (!retryOn) return retry;
+    const shouldRetry = retry.retryOn ?? ((error: unknown) => ErrorUtils.isTransient(error));
+    return { ...retry, retryOn: (error) => retryOn(error) && shouldRetry(error) };
   }
 
   /**
@@ -322,6 +1861,7 @@ export class PgParallel implements IPgParallel {
     operation: () => Promise<T>,
     config: CircuitBreakerConfig,
     opName: string,
+    retryOn?: (error: unknown) => boolean,
   ): Promise<T> {
     // For the fast path, we still need to handle retry properly to maintain logging
     const execOnce = async () => {
@@ -333,16 +1873,19 @@ export class PgParallel implements IPgParallel {
         }
         return result;
       } catch (error) {
-        // Handle failure with full observability
-        CircuitBreakerUtils.onBreakerFailure(this.breakerState, config, this.logger);
-        throw ErrorUtils.wrapError(error);
+        // Handle failure with full observability; cancellations say nothing about database health
+        const wrapped = ErrorUtils.wrapError(error);
+        if (wrapped.category !== 'CANCELLED') {
+          CircuitBreakerUtils.onBreakerFailure(this.breakerState, config, this.logger);
+        }
+        throw wrapped;
       }
     };
 
     // If retry is configured, use full retry path even in fast path
     // This ensures logging and observability work correctly
     if (this.hasRetryConfig) {
-      return RetryUtils.executeWithRetry(execOnce, this.config.retry!, opName, this.logger);
+      return RetryUtils.executeWithRetry(execOnce, this.resolveRetryConfig(retryOn), opName, this.logger);
     }
 
     return execOnce();
@@ -2,12 +2,35 @@
  * @file This script runs in a separate worker thread to handle database connections.
  */
 
-import { Pool, PoolClient, PoolConfig } from 'pg';
+import { PoolClient, PoolConfig } from 'pg';
 import { parentPort, workerData, threadId } from 'worker_threads';
-import { RetryConfig, CircuitBreakerConfig } from './types';
+import { Writable } from 'stream';
+import {
+  RetryConfig,
+  CircuitBreakerConfig,
+  TransactionOptions,
+  ModuleReference,
+  CursorOptions,
+  CopySource,
+  CopyFromOptions,
+  CopyOptions,
+  ConnectionHook,
+  SessionContext,
+} from './types';
 import { ErrorUtils } from './utils/ErrorUtils';
 import { RetryUtils } from './utils/RetryUtils';
 import { CircuitBreakerUtils, CircuitBreakerState } from './utils/CircuitBreakerUtils';
+import { TransactionUtils, TransactionScope } from './utils/TransactionUtils';
+import { CancelUtils } from './utils/CancelUtils';
+import { TransportUtils, ResultSerializer } from './utils/TransportUtils';
+import { CursorUtils } from './utils/CursorUtils';
+import { CopyUtils } from './utils/CopyUtils';
+import { ScanUtils } from './utils/ScanUtils';
+import { TaskUtils, LoadedTask } from './utils/TaskUtils';
+import { TypeParserUtils, TypeParser, ResolvedTypeParser } from './utils/TypeParserUtils';
+import { ConnectionUtils } from './utils/ConnectionUtils';
+import { SessionUtils, SessionQuery } from './utils/SessionUtils';
+import { AsyncContextUtils, AsyncContextValues, AsyncContextRestore } from './utils/AsyncContextUtils';
 
 if (!parentPort) {
   throw new Error('This script must be run as a worker thread.');
@@ -18,15 +41,66 @@ const {
   retry: retryConfig,
   circuitBreaker: circuitConfig,
   enableWorkerLogs,
+  resultSerializer: serializerReference,
+  tasks: taskReferences,
+  taskLoader,
+  workerSetup: setupReference,
+  typeParsers: typeParserList,
+  onConnect,
+  onCheckout,
+  asyncContextRestore,
 } = workerData as {
   poolConfig: PoolConfig;
   retry?: RetryConfig | null;
   circuitBreaker?: CircuitBreakerConfig | null;
   enableWorkerLogs?: boolean;
+  resultSerializer?: ModuleReference | null;
+  tasks?: Record<string, ModuleReference>;
+  taskLoader?: string | null;
+  workerSetup?: ModuleReference | null;
+  typeParsers?: ResolvedTypeParser[];
+  onConnect?: ConnectionHook | null;
+  onCheckout?: ConnectionHook | null;
+  asyncContextRestore?: ModuleReference | null;
 };
-const pool = new Pool(poolConfig);
+// Filled once the parser modules are loaded, before any job runs
+const typeParsers = new Map<number, TypeParser>();
+const pool = ConnectionUtils.createPool(
+  typeParserList?.length ? { ...poolConfig, types: TypeParserUtils.createTypes(typeParsers) } : poolConfig,
+  { onConnect: onConnect ?? undefined, onCheckout: onCheckout ?? undefined },
+  taskLoader,
+);
 const activeClients = new Map<string, PoolClient>();
 
+interface ActiveRequest {
+  client?: PoolClient;
+  cancelled: boolean;
+  /** Pending cancel request; the connection is held until it completes. */
+  cancelling?: Promise<unknown>;
+  /** Set while a stream waits for the main thread to ask for its next batch, or a copy for its next chunk. */
+  resume?: () => void;
+  /** Receives the chunks of a `copy-from` request, `null` marking the end of the data. */
+  push?: (chunk: Buffer | null) => void;
+  /** Set when an interrupted copy left the connection unusable. */
+  broken?: boolean;
+}
+
+// Client-scoped jobs that can be cancelled from the main thread
+const activeRequests = new Map<string, ActiveRequest>();
+
+// Tasks run by name, loaded once when the worker starts or when registered later
+const registeredTasks = new Map<string, Promise<LoadedTask>>();
+for (const [name, reference] of Object.entries(taskReferences ?? {})) {
+  registeredTasks.set(name, TaskUtils.loadTask(name, reference, taskLoader));
+}
+
+// Jobs wait for the type parsers and the workerSetup hook, whose result is passed to tasks after their arguments
+const contextArgs: Promise<unknown[]> = TypeParserUtils.loadParsers(typeParserList ?? [], taskLoader).then(
+  async (parsers) => {
+    for (const [oid, parse] of parsers) typeParsers.set(oid, parse);
+    return setupReference ? [await TaskUtils.runSetup(setupReference, taskLoader)] : [];
+  },
+);
 pool.on('error', (err) => {
   if (enableWorkerLogs) {
     console.error('Idle client in worker pool encountered an error', err);
@@ -103,70 +177,437 @@ async function executeWithBreakerAndRetry<T>(fn: () => Promise<T>, opName: strin
   return executeWithRetry(execOnce, opName);
 }
 
+async function executeWithBreaker<T>(fn: () => Promise<T>): Promise<T> {
+  await ensureBreakerState();
+  if (breakerState.state === 'OPEN') {
+    throw new Error('Worker circuit breaker is open');
+  }
+  try {
+    const result = await fn();
+    onBreakerSuccess();
+    return result;
+  } catch (err) {
+    onBreakerFailure();
+    throw err;
+  }
+}
+
 async function connectClient(): Promise<PoolClient> {
   return executeWithBreakerAndRetry(() => pool.connect(), 'worker.connect');
 }
 
-function createResilientClient(base: PoolClient): { query: PoolClient['query'] } {
+function createResilientClient(
+  base: PoolClient,
+  request: ActiveRequest,
+  scope: TransactionScope = TransactionUtils.createScope(),
+): any {
   const safeQuery = ((textOrConfig: any, values?: any) => {
-    return executeWithBreakerAndRetry(() => base.query(textOrConfig as any, values as any), 'worker.query');
+    const run = () => {
+      if (request.cancelled) throw CancelUtils.createCancelledError();
+      return base.query(textOrConfig as any, values as any);
+    };
+    // Statements inside a transaction must not be retried on their own: after a
+    // failure the transaction is aborted and only a full re-run can succeed.
+    return scope.depth === 0 ? executeWithBreakerAndRetry(run, 'worker.query') : executeWithBreaker(run);
   }) as unknown as PoolClient['query'];
-  return { query: safeQuery } as any;
+  const runStatement = (text: string) => executeWithBreaker(() => base.query(text));
+
+  const client = {
+    query: safeQuery,
+    stream: (text: string, values?: any[], options: CursorOptions = {}) =>
+      CursorUtils.streamRows(safeQuery as any, scope, text, values, options.batchSize),
+    copyFrom: (table: string, source: CopySource, options: CopyFromOptions = {}) => {
+      if (request.cancelled) return Promise.reject(CancelUtils.createCancelledError());
+      return CopyUtils.copyFrom(base, CopyUtils.buildCopyFromStatement(table, options), source, options.format);
+    },
+    copyTo: async (query: string, destination: NodeJS.WritableStream, options: CopyOptions = {}) => {
+      if (request.cancelled) throw CancelUtils.createCancelledError();
+      try {
+        return await CopyUtils.copyTo(base, CopyUtils.buildCopyToStatement(query, options), destination);
+      } catch (err) {
+        request.broken = true;
+        throw err;
+      }
+    },
+    transaction: (fn: (client: any) => Promise<any>) =>
+      TransactionUtils.runNested(runStatement, scope, () => fn(client)),
+    savepoint: (nameOrFn: string | ((client: any) => Promise<any>), maybeFn?: (client: any) => Promise<any>) => {
+      const name = typeof nameOrFn === 'string' ? nameOrFn : undefined;
+      const fn = typeof nameOrFn === 'function' ? nameOrFn : maybeFn!;
+      return TransactionUtils.runSavepoint(runStatement, scope, () => fn(client), name);
+    },
+  };
+  return client;
+}
+
+/**
+ * Resolves the function executed by a `worker` or `transaction` message, either
+ * from a file-based or defined task, a scan partition, a statement or serialized function source.
+ */
+async function resolveWorkerBody(payload: any, context: unknown[]): Promise<(client: any) => Promise<any>> {
+  if (payload.workerFile) {
+    const args = payload.hasBuffers ? TransportUtils.restoreBuffers(payload.workerFile.args) : payload.workerFile.args;
+    return TaskUtils.loadFileTask({ ...payload.workerFile, args: [...(args ?? []), ...context] }, taskLoader);
+  }
+  if (payload.definedTask) {
+    const args = payload.hasBuffers
+      ? TransportUtils.restoreBuffers(payload.definedTask.args)
+      : payload.definedTask.args;
+    return TaskUtils.loadDefinedTask({ ...payload.definedTask, args: [...args, ...context] }, taskLoader);
+  }
+  if (payload.statement) {
+    return (client) => client.query(payload.statement.text, payload.statement.values);
+  }
+  if (payload.scan) {
+    const processor = new Function(`return (${payload.scan.processor})`)();
+    return (client) => ScanUtils.processPartition(client, payload.scan, processor);
+  }
+  const taskFunction = new Function('client', 'context', `return (${payload.task})(client, ...context)`);
+  return (client) => taskFunction(client, context);
+}
+
+/**
+ * Runs `body` inside a transaction, committing on success and rolling back on
+ * failure. Serialization failures and deadlocks re-run the whole transaction.
+ */
+async function runTransaction<T>(
+  base: PoolClient,
+  request: ActiveRequest,
+  options: TransactionOptions,
+  context: SessionContext | undefined,
+  body: (client: any) => Promise<T>,
+): Promise<T> {
+  const client = createResilientClient(base, request, TransactionUtils.createScope(1));
+  const logger = enableWorkerLogs
+    ? {
+        info: (message: string, meta?: Record<string, unknown>) => console.info(message, meta),
+      }
+    : undefined;
+
+  return TransactionUtils.runTransaction(
+    (text) => executeWithBreaker(() => base.query(text)),
+    options,
+    retryConfig,
+    async () => {
+      if (request.cancelled) throw CancelUtils.createCancelledError();
+      if (context) await SessionUtils.applyContext(createSessionQuery(base), context);
+      return body(client);
+    },
+    'worker.transaction',
+    logger,
+  );
+}
+
+/**
+ * Runs `body` in a transaction holding the call's session context. A
+ * connection the settings could not be cleared from is discarded on release.
+ */
+function runWithContext<T>(
+  base: PoolClient,
+  request: ActiveRequest,
+  context: SessionContext,
+  body: (client: any) => Promise<T>,
+): Promise<T> {
+  const scope = TransactionUtils.createScope();
+  return SessionUtils.runWithContext(
+    createSessionQuery(base),
+    scope,
+    context,
+    () => body(createResilientClient(base, request, scope)),
+    () => (request.broken = true),
+  );
+}
+
+/**
+ * Executes the statements applying and clearing a session context.
+ */
+function createSessionQuery(base: PoolClient): SessionQuery {
+  return (text, values) => executeWithBreaker(() => base.query(text, values));
+}
+
+/**
+ * Cancels a client-scoped job: the statement running on its connection is
+ * cancelled and every later statement of the job fails immediately.
+ */
+function cancelRequest(requestId: string): void {
+  const request = activeRequests.get(requestId);
+  if (!request || request.cancelled) return;
+  request.cancelled = true;
+  // An idle stream or copy has no statement to cancel and stops when resumed
+  if (request.resume) {
+    request.resume();
+    return;
+  }
+  if (request.client) {
+    request.cancelling = CancelUtils.cancelBackend(poolConfig, (request.client as any).processID).catch((err) => {
+      if (enableWorkerLogs) console.warn('Failed to cancel request', { requestId, message: err?.message });
+    });
+  }
+}
+
+/**
+ * Sends the rows of a query to the main thread in batches read through a
+ * cursor, waiting for the main thread to ask for each further batch.
+ */
+async function runStream(requestId: string, workerId: string, payload: any): Promise<void> {
+  const request: ActiveRequest = { cancelled: false };
+  activeRequests.set(requestId, request);
+  try {
+    const client = await connectClient();
+    request.client = client;
+    let failed = false;
+    try {
+      const query = (text: string, values?: any[]) => executeWithBreaker(() => client.query(text, values));
+      const batches = CursorUtils.fetchBatches(
+        query,
+        TransactionUtils.createScope(),
+        payload.text,
+        payload.values,
+        payload.batchSize,
+      );
+      for await (const rows of batches) {
+        const { value, hasBuffers } = TransportUtils.prepareResult(rows);
+        parentPort!.postMessage({ requestId, workerId, batch: value, hasBuffers });
+        await new Promise<void>((resolve) => (request.resume = resolve));
+        request.resume = undefined;
+        if (request.cancelled) break;
+      }
+    } catch (err) {
+      failed = true;
+      throw err;
+    } finally {
+      await request.cancelling;
+      // A connection whose cursor could not be cleaned up may still be inside its transaction
+      client.release(failed);
+    }
+  } finally {
+    activeRequests.delete(requestId);
+  }
+}
+
+/**
+ * Loads the chunks sent by the main thread with `COPY ... FROM STDIN`, asking
+ * for each next chunk once the previous one has been written.
+ */
+async function runCopyFrom(requestId: string, workerId: string, payload: any): Promise<{ rowCount: number }> {
+  const request: ActiveRequest = { cancelled: false };
+  activeRequests.set(requestId, request);
+  try {
+    const client = await connectClient();
+    request.client = client;
+    const received: (Buffer | null)[] = [];
+    request.push = (chunk) => {
+      received.push(chunk);
+      request.resume?.();
+    };
+    async function* chunks(): AsyncGenerator<Buffer, void, undefined> {
+      while (true) {
+        if (request.cancelled) throw CancelUtils.createCancelledError();
+        const chunk = received.shift();
+        if (chunk === null) return;
+        if (chunk) {
+          yield chunk;
+          continue;
+        }
+        parentPort!.postMessage({ requestId, workerId, ready: true });
+        await new Promise<void>((resolve) => (request.resume = resolve));
+        request.resume = undefined;
+      }
+    }
+    try {
+      // Aborting the copy stream sends CopyFail, which leaves the connection usable
+      const { rowCount } = await CopyUtils.copyFrom(client, payload.text, chunks());
+      return { rowCount };
+    } finally {
+      await request.cancelling;
+      client.release();
+    }
+  } finally {
+    activeRequests.delete(requestId);
+  }
+}
+
+/**
+ * Sends the output of `COPY ... TO STDOUT` to the main thread in chunks,
+ * waiting for the main thread to ask for each further chunk.
+ */
+async function runCopyTo(requestId: string, workerId: string, payload: any): Promise<{ rowCount: number }> {
+  const request: ActiveRequest = { cancelled: false };
+  activeRequests.set(requestId, request);
+  try {
+    const client = await connectClient();
+    request.client = client;
+    let failed = false;
+    try {
+      // Copy data arrives one row at a time; rows buffered while the main thread is busy go out together
+      const destination = new Writable({
+        highWaterMark: CopyUtils.CHUNK_SIZE,
+        writev(entries, callback) {
+          const chunk = Buffer.concat(entries.map((entry) => entry.chunk));
+          parentPort!.postMessage(
+            { requestId, workerId, batch: [chunk], hasBuffers: true },
+            TransportUtils.collectTransferables(chunk, true),
+          );
+          request.resume = () => {
+            request.resume = undefined;
+            callback(request.cancelled ? CancelUtils.createCancelledError() : undefined);
+          };
+        },
+      });
+      const { rowCount } = await CopyUtils.copyTo(client, payload.text, destination);
+      return { rowCount };
+    } catch (err) {
+      failed = true;
+      throw err;
+    } finally {
+      await request.cancelling;
+      // A copy stopped before its end leaves the connection unusable
+      client.release(failed);
+    }
+  } finally {
+    activeRequests.delete(requestId);
+  }
+}
+
+/**
+ * Ends the worker's pool once its checked-out connections have been released,
+ * then stops the thread.
+ */
+async function shutdownWorker(): Promise<void> {
+  try {
+    await pool.end();
+  } catch (err: any) {
+    if (enableWorkerLogs) console.warn('Failed to end worker pool', { message: err?.message });
+  }
+  process.exit(0);
+}
+
+// Loaded on first use, so a broken restore module only fails the jobs carrying context
+let restoreAsyncContext: Promise<AsyncContextRestore> | undefined;
+
+/**
+ * Runs a job inside the async context captured when it was submitted.
+ */
+async function withAsyncContext<T>(values: AsyncContextValues | undefined, fn: () => Promise<T>): Promise<T> {
+  if (!values) return fn();
+  if (asyncContextRestore) restoreAsyncContext ??= AsyncContextUtils.loadRestore(asyncContextRestore, taskLoader);
+  return AsyncContextUtils.run(values, restoreAsyncContext && (await restoreAsyncContext), fn);
+}
+
+// Loaded on first use, so a broken serializer module only fails the results that need it
+let resultSerializer: Promise<ResultSerializer> | undefined;
+
+/**
+ * Posts a result to the main thread via structured clone, falling back to the
+ * configured serializer for values that cannot be cloned. Binary data marked
+ * with `transfer()`, or all of it with `transferAll`, is moved rather than copied.
+ */
+async function postResult(requestId: string, workerId: string, result: unknown, transferAll = false): Promise<void> {
+  const { value, hasBuffers } = TransportUtils.prepareResult(result);
+  try {
+    parentPort!.postMessage(
+      { requestId, workerId, data: value, hasBuffers },
+      TransportUtils.collectTransferables(result, transferAll),
+    );
+  } catch (err) {
+    if (!TransportUtils.isDataCloneError(err)) throw err;
+    if (enableWorkerLogs) console.warn('Result cannot be cloned, using the fallback serializer', { requestId });
+    resultSerializer ??= TransportUtils.loadSerializer(serializerReference, taskLoader);
+    parentPort!.postMessage({ requestId, workerId, data: (await resultSerializer)(value) });
+  }
 }
 
 interface WorkerMessage {
-  type: 'worker' | 'task' | 'query';
+  type:
+    | 'register'
+    | 'worker'
+    | 'task'
+    | 'query'
+    | 'transaction'
+    | 'stream'
+    | 'stream-next'
+    | 'copy-from'
+    | 'copy-to'
+    | 'copy-data'
+    | 'copy-end'
+    | 'cancel'
+    | 'shutdown';
   requestId: string;
   payload: any;
   clientId?: string;
+  /** Async context captured when the job was submitted. */
+  asyncContext?: AsyncContextValues;
 }
 
 parentPort.on('message', async (message: WorkerMessage) => {
-  const { type, requestId, payload, clientId } = message;
+  const { type, requestId, payload, clientId, asyncContext } = message;
   const workerId = threadId.toString();
 
+  if (type === 'cancel') {
+    cancelRequest(requestId);
+    return;
+  }
+  if (type === 'stream-next') {
+    activeRequests.get(requestId)?.resume?.();
+    return;
+  }
+  if (type === 'copy-data' || type === 'copy-end') {
+    activeRequests
+      .get(requestId)
+      ?.push?.(type === 'copy-data' ? Buffer.from(payload.buffer, payload.byteOffset, payload.byteLength) : null);
+    return;
+  }
+  if (type === 'register') {
+    registeredTasks.set(payload.name, TaskUtils.loadTask(payload.name, payload.reference, taskLoader));
+    return;
+  }
+  if (type === 'shutdown') {
+    await shutdownWorker();
+    return;
+  }
+
   try {
     let result: any;
+    const context = await contextArgs;
 
-    if (type === 'worker') {
-      if (payload.workerFile) {
-        const client = await connectClient();
-        try {
-          const taskModule = require(payload.workerFile.taskPath);
-          const taskName = payload.workerFile.taskName || 'handler';
-          if (typeof taskModule[taskName] !== 'function') {
-            throw new Error(`Task '${taskName}' not found or not a function in ${payload.workerFile.taskPath}`);
+    if (type === 'worker' || type === 'transaction') {
+      const request: ActiveRequest = { cancelled: false };
+      activeRequests.set(requestId, request);
+      try {
+        const body = await resolveWorkerBody(payload, context);
+        // Checkout hooks run inside the context as well
+        result = await withAsyncContext(asyncContext, async () => {
+          const client = await connectClient();
+          request.client = client;
+          if (payload.clientId) activeClients.set(payload.clientId, client);
+          try {
+            return type === 'transaction'
+              ? await runTransaction(client, request, payload.options ?? {}, payload.context, body)
+              : payload.context
+                ? await runWithContext(client, request, payload.context, body)
+                : await body(createResilientClient(client, request));
+          } finally {
+            // A cancel request still in flight must not reach the connection's next user
+            await request.cancelling;
+            client.release(request.broken);
+            if (payload.clientId) activeClients.delete(payload.clientId);
           }
-          const taskArgs = payload.workerFile.args || [];
-          const resilient = createResilientClient(client);
-          result = await taskModule[taskName](resilient, ...taskArgs);
-        } finally {
-          client.release();
-        }
-      } else if (payload.clientId) {
-        const client = await connectClient();
-        activeClients.set(payload.clientId, client);
-        try {
-          const resilient = createResilientClient(client);
-          const taskFunction = new Function('client', `return (${payload.task})(client)`);
-          result = await taskFunction(resilient);
-        } finally {
-          client.release();
-          activeClients.delete(payload.clientId);
-        }
-      } else {
-        const client = await connectClient();
-        try {
-          const resilient = createResilientClient(client);
-          const taskFunction = new Function('client', `return (${payload.task})(client)`);
-          result = await taskFunction(resilient);
-        } finally {
-          client.release();
-        }
+        });
+      } finally {
+        activeRequests.delete(requestId);
       }
+    } else if (type === 'stream') {
+      await runStream(requestId, workerId, payload);
+    } else if (type === 'copy-from') {
+      result = await runCopyFrom(requestId, workerId, payload);
+    } else if (type === 'copy-to') {
+      result = await runCopyTo(requestId, workerId, payload);
     } else if (type === 'task') {
-      const taskFunction = new Function('...args', `return (${payload.task})(...args)`);
-      result = await taskFunction(...payload.args);
+      const taskFunction = payload.taskName
+        ? TaskUtils.resolveTask(payload.taskName, await registeredTasks.get(payload.taskName))
+        : new Function('...args', `return (${payload.task})(...args)`);
+      const args = payload.hasBuffers ? TransportUtils.restoreBuffers(payload.args) : payload.args;
+      result = await withAsyncContext(asyncContext, async () => taskFunction(...(args as any[]), ...context));
     } else if (type === 'query') {
       if (!clientId) throw new Error('Missing clientId for query.');
       const client = activeClients.get(clientId);
@@ -179,11 +620,9 @@ parentPort.on('message', async (message: WorkerMessage) => {
       );
     }
 
-    const sanitizedResult = result && typeof result === 'object' ? JSON.parse(JSON.stringify(result)) : result;
-
-    parentPort?.postMessage({ requestId, workerId, data: sanitizedResult });
+    await postResult(requestId, workerId, result, type !== 'query' && !!payload.transferResult);
   } catch (err: any) {
-    parentPort?.postMessage({ requestId, workerId, error: { message: err.message } });
+    parentPort?.postMessage({ requestId, workerId, error: ErrorUtils.serializeError(err) });
     if (clientId && activeClients.has(clientId)) {
       const client = activeClients.get(clientId);
       if (client) {
@@ -194,4 +633,10 @@ parentPort.on('message', async (message: WorkerMessage) => {
   }
 });
 
+// The main thread counts the worker as started once it handles messages and its workerSetup hook has run
+(setupReference ? contextArgs : Promise.resolve()).then(
+  () => parentPort!.postMessage({ started: true }),
+  (err) => parentPort!.postMessage({ started: true, error: ErrorUtils.serializeError(err) }),
+);
+
 if (enableWorkerLogs) console.log('Worker thread started successfully');
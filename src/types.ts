@@ -12,6 +12,8 @@ export type ErrorCategory =
   | 'SERIALIZATION'
   | 'CONSTRAINT'
   | 'SYNTAX'
+  | 'CANCELLED'
+  | 'OVERLOADED'
   | 'UNKNOWN';
 
 /**
@@ -20,12 +22,19 @@ export type ErrorCategory =
 export class PgParallelError extends Error {
   public readonly category: ErrorCategory;
   public readonly cause?: unknown;
+  /**
+   * The SQLSTATE of the underlying PostgreSQL error (e.g. `23505`), or the
+   * Node.js error code for connection failures, when the cause carries one.
+   */
+  public readonly code?: string;
 
   constructor(message: string, category: ErrorCategory, cause?: unknown) {
     super(message);
     this.name = 'PgParallelError';
     this.category = category;
     this.cause = cause;
+    const code = (cause as any)?.code;
+    if (typeof code === 'string') this.code = code;
   }
 }
 
@@ -72,6 +81,452 @@ export interface CircuitBreakerConfig {
   halfOpenSuccessesToClose: number;
 }
 
+/**
+ * Options accepted by every public operation.
+ */
+export interface OperationOptions {
+  /**
+   * Cancels the operation when aborted. The returned promise rejects with a
+   * `PgParallelError` in the `CANCELLED` category.
+   */
+  signal?: AbortSignal;
+  /**
+   * Rejects the operation with a `TIMEOUT` error after this many milliseconds.
+   * Overrides `PgParallelConfig.timeoutMs`; `0` disables the timeout.
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Priority of a job waiting for a worker: `high`, `normal`, `low`, or a
+ * number where higher values are served first (`high` is 1, `normal` 0 and `low` -1).
+ */
+export type Priority = 'high' | 'normal' | 'low' | number;
+
+/**
+ * Options for jobs that run on a worker thread and may wait in the queue.
+ */
+export interface SchedulingOptions {
+  /**
+   * Priority of the job while it waits for a free worker.
+   * @default 'normal'
+   */
+  priority?: Priority;
+}
+
+/**
+ * Options controlling how a job's result is posted back from the worker.
+ */
+export interface TransferOptions {
+  /**
+   * Transfers the memory of every `ArrayBuffer`, `Buffer` and typed array in the
+   * result to the main thread instead of copying it. Values marked with
+   * `PgParallel.transfer()` inside the worker are transferred either way.
+   * @default false
+   */
+  transferResult?: boolean;
+}
+
+/**
+ * Session settings applied to the connection of a single call, e.g.
+ * `{ 'app.tenant_id': '42' }` for row-level security policies reading
+ * `current_setting('app.tenant_id')`.
+ */
+export type SessionContext = Record<string, string>;
+
+/**
+ * Options for calls that run on a connection of their own.
+ */
+export interface SessionOptions {
+  /**
+   * Settings applied with `set_config(name, value, true)` at the start of a
+   * transaction wrapping the call, so they end with it and never reach the
+   * connection's next user. `query()` and `worker()` calls run in a
+   * transaction of their own when this is set.
+   */
+  context?: SessionContext;
+}
+
+/**
+ * Options for `pgParallel.query()`.
+ */
+export interface QueryOptions extends OperationOptions, SessionOptions {}
+
+/**
+ * Options for reading a query through a server-side cursor.
+ */
+export interface CursorOptions {
+  /**
+   * Number of rows fetched from the cursor at a time.
+   * @default 100
+   */
+  batchSize?: number;
+}
+
+/**
+ * Options for `pgParallel.stream()`. The timeout covers the whole stream.
+ */
+export interface StreamOptions extends OperationOptions, SchedulingOptions, CursorOptions {}
+
+/**
+ * Data formats of the `COPY` command.
+ */
+export type CopyFormat = 'text' | 'csv' | 'binary';
+
+/**
+ * Options for `COPY ... TO STDOUT`.
+ */
+export interface CopyOptions {
+  /**
+   * Data format of the copy.
+   * @default 'text'
+   */
+  format?: CopyFormat;
+  /** Writes or expects a header line (`csv` only). */
+  header?: boolean;
+}
+
+/**
+ * Options for `COPY ... FROM STDIN`.
+ */
+export interface CopyFromOptions extends CopyOptions {
+  /** Columns the data is loaded into, in order. Defaults to all columns of the table. */
+  columns?: string[];
+}
+
+/**
+ * Options for `pgParallel.copyTo()`. The timeout covers the whole copy.
+ */
+export interface ParallelCopyOptions extends CopyOptions, OperationOptions, SchedulingOptions {}
+
+/**
+ * Options for `pgParallel.copyFrom()`. The timeout covers the whole copy.
+ */
+export interface ParallelCopyFromOptions extends CopyFromOptions, OperationOptions, SchedulingOptions {}
+
+/**
+ * Data loaded by `copyFrom()`: raw chunks in the copy format (`Buffer` or
+ * `string`), or rows as arrays of values, which are encoded for the `text` and
+ * `csv` formats. Node readable streams are async iterables and can be used directly.
+ */
+export type CopySource = AsyncIterable<CopySourceItem> | Iterable<CopySourceItem>;
+
+/**
+ * A raw chunk of copy data or a row of values.
+ */
+export type CopySourceItem = Buffer | Uint8Array | string | unknown[];
+
+/**
+ * Outcome of a `COPY` command.
+ */
+export interface CopyResult {
+  /** Number of rows copied, as reported by the server. */
+  rowCount: number;
+  /** Number of bytes of copy data sent or received. */
+  bytes: number;
+}
+
+/**
+ * Describes the rows read by `pgParallel.scan()` and how they are split into
+ * partitions. The timeout applies to each partition.
+ */
+export interface ScanOptions extends OperationOptions, SchedulingOptions, CursorOptions {
+  /** The table to scan, optionally schema-qualified. */
+  table: string;
+  /**
+   * Column whose range is split into partitions. Integer, numeric, timestamp,
+   * date and uuid columns are supported. Without a key, the table is split by
+   * physical blocks (`ctid` ranges).
+   */
+  key?: string;
+  /**
+   * Number of partitions. Defaults to the number of job slots of the pool
+   * (`maxWorkers * workerConcurrency`).
+   */
+  partitions?: number;
+  /** Columns read, in SQL. @default '*' */
+  columns?: string;
+  /** Condition the scanned rows must match, in SQL. */
+  where?: string;
+  /** Values for the placeholders of `where`. */
+  values?: any[];
+  /** Invoked on the calling thread each time a partition completes. */
+  onProgress?: (progress: ScanProgress) => void;
+}
+
+/**
+ * Processes a batch of rows of a partition inside a worker thread. Like the
+ * functions passed to `worker()`, it must be self-contained.
+ */
+export type ScanProcessor<R = any, T = any> = (rows: R[], client: IParallelClient) => T | Promise<T>;
+
+/**
+ * A partition of a scan and how much of it has been processed.
+ */
+export interface ScanPartitionProgress {
+  /** Position of the partition in the key space. */
+  index: number;
+  /** Inclusive lower bound of the partition, if any. */
+  lower?: string;
+  /** Exclusive upper bound of the partition, if any. */
+  upper?: string;
+  /** Number of rows processed. */
+  rows: number;
+  /** Number of batches processed. */
+  batches: number;
+  /** Whether every row of the partition has been processed. */
+  done: boolean;
+}
+
+/**
+ * Progress of a scan, reported each time a partition completes.
+ */
+export interface ScanProgress {
+  /** The partition that just completed. */
+  partition: ScanPartitionProgress;
+  /** Number of partitions completed so far. */
+  completed: number;
+  /** Total number of partitions. */
+  total: number;
+  /** Number of rows processed so far. */
+  rows: number;
+}
+
+/**
+ * Outcome of `pgParallel.scan()`.
+ */
+export interface ScanResult<T> {
+  /** Values returned by the processor for each batch, in key order. */
+  results: T[];
+  /** The partitions of the scan. */
+  partitions: ScanPartitionProgress[];
+  /** Total number of rows processed. */
+  rows: number;
+}
+
+/**
+ * Options for `pgParallel.map()` and `pgParallel.mapSettled()`. The timeout
+ * applies to each chunk.
+ */
+export interface MapOptions extends OperationOptions, SchedulingOptions {
+  /**
+   * Maximum number of chunks in flight at once. Defaults to the number of job
+   * slots of the pool (`maxWorkers * workerConcurrency`).
+   */
+  concurrency?: number;
+  /**
+   * Number of items sent to a worker in a single task. Defaults to spreading
+   * the items over four chunks per concurrent slot.
+   */
+  chunkSize?: number;
+  /**
+   * Returns the results in the order of the items. When false, results are
+   * returned in the order chunks complete.
+   * @default true
+   */
+  ordered?: boolean;
+}
+
+/**
+ * Options for `pgParallel.reduce()`.
+ */
+export interface ReduceOptions<A> extends Omit<MapOptions, 'ordered'> {
+  /**
+   * Merges the accumulators of two chunks on the calling thread, in item order.
+   * Defaults to the reducer itself, which suits reducers whose accumulator and
+   * items share a type.
+   */
+  combine?: (left: A, right: A) => A | Promise<A>;
+}
+
+/**
+ * What `pgParallel.bulkInsert()` does with rows that conflict with existing ones.
+ */
+export interface BulkConflictOptions {
+  /** Columns of the unique constraint checked for conflicts. Required for `update`. */
+  target?: string[];
+  /** Skips conflicting rows, or updates the existing rows with their values. */
+  action: 'nothing' | 'update';
+  /** Columns updated on conflict. Defaults to every inserted column not in `target`. */
+  update?: string[];
+}
+
+/**
+ * Options for `pgParallel.bulkInsert()`. The timeout applies to each batch.
+ */
+export interface BulkInsertOptions extends OperationOptions, SchedulingOptions {
+  /**
+   * Columns inserted, in the order of the values of array rows. Defaults to the
+   * keys of the first row when rows are objects.
+   */
+  columns?: string[];
+  /**
+   * Number of rows per statement. Defaults to 1000, or less when a multi-row
+   * `VALUES` statement would exceed PostgreSQL's 65535 parameters.
+   */
+  batchSize?: number;
+  /** Turns the statements into upserts. */
+  onConflict?: BulkConflictOptions;
+  /**
+   * Maximum number of batches written at once. Defaults to the number of job
+   * slots of the pool (`maxWorkers * workerConcurrency`).
+   */
+  parallelism?: number;
+  /**
+   * Builds statements from a multi-row `VALUES` list, or from one array
+   * parameter per column expanded with `unnest`, which is not limited in rows
+   * per statement but does not support array columns.
+   * @default 'values'
+   */
+  method?: 'values' | 'unnest';
+}
+
+/**
+ * A batch of `pgParallel.bulkInsert()` that could not be written.
+ */
+export interface BulkInsertFailure {
+  /** Position of the batch. */
+  batch: number;
+  /** Index of the first row of the batch. */
+  offset: number;
+  /** Number of rows in the batch. */
+  rows: number;
+  /** Why the batch failed. */
+  error: Error;
+}
+
+/**
+ * Outcome of `pgParallel.bulkInsert()`.
+ */
+export interface BulkInsertResult {
+  /** Number of rows inserted. */
+  inserted: number;
+  /** Number of existing rows updated by the `update` conflict action. */
+  updated: number;
+  /** Number of rows skipped by the `nothing` conflict action. */
+  skipped: number;
+  /** Number of batches written, including failed ones. */
+  batches: number;
+  /** Batches that failed; their rows were not written. */
+  failed: BulkInsertFailure[];
+}
+
+/**
+ * Options for `pgParallel.task()`.
+ */
+export interface TaskOptions extends OperationOptions, SchedulingOptions, TransferOptions {
+  /**
+   * Terminates and respawns the worker thread running the task when the signal
+   * is aborted. Without it, the task keeps running in the background, holding
+   * its worker slot, and only the returned promise is rejected.
+   * @default false
+   */
+  terminateOnAbort?: boolean;
+}
+
+/**
+ * Options for `pgParallel.worker()`.
+ */
+export interface WorkerOptions extends OperationOptions, SchedulingOptions, TransferOptions, SessionOptions {}
+
+/**
+ * Transaction isolation levels supported by PostgreSQL.
+ */
+export type IsolationLevel = 'READ UNCOMMITTED' | 'READ COMMITTED' | 'REPEATABLE READ' | 'SERIALIZABLE';
+
+/**
+ * Options controlling how `pgParallel.transaction()` opens and retries a transaction.
+ */
+export interface TransactionOptions extends WorkerOptions {
+  /** Isolation level used in the `BEGIN` statement. Defaults to the server default. */
+  isolationLevel?: IsolationLevel;
+  /** Opens the transaction as `READ ONLY`. */
+  readOnly?: boolean;
+  /** Opens the transaction as `DEFERRABLE` (only meaningful for serializable read-only transactions). */
+  deferrable?: boolean;
+  /**
+   * Maximum number of attempts, including the initial try, when the transaction
+   * fails with a serialization failure or deadlock. Defaults to `retry.maxAttempts`
+   * when configured, otherwise 3.
+   */
+  maxAttempts?: number;
+}
+
+/**
+ * Options for `pgParallel.shutdown()`.
+ */
+export interface ShutdownOptions {
+  /**
+   * Waits for queued and in-flight jobs to finish before closing. Without it,
+   * queued and in-flight jobs are rejected with a `CANCELLED` error.
+   * @default false
+   */
+  drain?: boolean;
+  /**
+   * Deadline in milliseconds for the whole shutdown. Jobs still queued or in
+   * flight when it passes are rejected with a `TIMEOUT` error, and workers that
+   * have not closed their pools by then are terminated.
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Configuration for shutting down on process signals.
+ */
+export interface SignalHandlingConfig extends ShutdownOptions {
+  /**
+   * The signals that trigger a shutdown.
+   * @default ['SIGTERM', 'SIGINT']
+   */
+  signals?: NodeJS.Signals[];
+}
+
+/**
+ * Configuration for respawning worker threads that crash or exit unexpectedly.
+ */
+export interface WorkerRespawnConfig {
+  /** Delay before respawning after the first crash in the window, in milliseconds. */
+  initialDelayMs: number;
+  /** Maximum respawn delay in milliseconds. */
+  maxDelayMs: number;
+  /** Multiplier applied to the delay for every further crash in the window. */
+  backoffFactor: number;
+  /** Maximum number of respawns inside `windowMs` before giving up on a crash loop. */
+  maxRestarts: number;
+  /** Length of the crash-loop detection window in milliseconds. */
+  windowMs: number;
+}
+
+/**
+ * What to do with a new job when every worker is busy and the queue is full.
+ * - `reject`: reject the new job with an `OVERLOADED` error.
+ * - `drop-oldest`: reject the job that has waited longest with an `OVERLOADED` error and queue the new one.
+ * - `caller-runs`: run the new job on the calling thread, using a connection from the main pool.
+ */
+export type RejectionPolicy = 'reject' | 'drop-oldest' | 'caller-runs';
+
+/**
+ * How the next job picks a worker among those with spare capacity.
+ * - `round-robin`: rotate through the workers.
+ * - `least-loaded`: pick the worker running the fewest jobs.
+ * - `random-two-choices`: sample two workers at random and pick the less loaded one.
+ */
+export type SchedulerStrategy = 'round-robin' | 'least-loaded' | 'random-two-choices';
+
+/**
+ * A snapshot of the load on a PgParallel instance.
+ */
+export interface PgParallelStats {
+  /** Number of live worker threads. */
+  workers: number;
+  /** Number of workers currently running at least one `task`, `worker` or `transaction` job. */
+  busyWorkers: number;
+  /** Number of jobs currently running on each worker, in rotation order. */
+  activeJobs: number[];
+  /** Number of jobs waiting in the main-thread queue for a free worker. */
+  queued: number;
+}
+
 /**
  * The client proxy returned by `pgParallel.worker()`.
  * It provides a safe way to interact with a database client in a worker thread.
@@ -92,6 +547,56 @@ export interface IParallelClient {
     config: QueryConfig<I> | string,
     values?: I,
   ): Promise<QueryResult<R>>;
+
+  /**
+   * Runs `fn` inside a transaction. When the client is already inside a
+   * transaction, the scope is mapped to a savepoint instead, so a failure only
+   * rolls back the work done by `fn`.
+   *
+   * @param fn The function to run inside the scope.
+   */
+  transaction<T>(fn: (client: IParallelClient) => Promise<T>): Promise<T>;
+
+  /**
+   * Runs `fn` inside a savepoint of the current transaction. The savepoint is
+   * released on success and rolled back when `fn` throws, leaving the enclosing
+   * transaction usable.
+   *
+   * @param name Optional savepoint name. A unique name is generated when omitted.
+   * @param fn The function to run inside the savepoint.
+   */
+  savepoint<T>(fn: (client: IParallelClient) => Promise<T>): Promise<T>;
+  savepoint<T>(name: string, fn: (client: IParallelClient) => Promise<T>): Promise<T>;
+
+  /**
+   * Reads the rows of a query through a server-side cursor, fetching the next
+   * batch only when the previous one has been consumed. Outside a transaction
+   * the cursor runs in its own transaction on this client.
+   *
+   * @param text The SQL query.
+   * @param values The values to substitute for placeholders in the query.
+   * @param options Cursor options.
+   */
+  stream<R extends QueryResultRow = any>(text: string, values?: any[], options?: CursorOptions): AsyncIterable<R>;
+
+  /**
+   * Loads data into a table with `COPY ... FROM STDIN`.
+   *
+   * @param table The table to load, optionally schema-qualified.
+   * @param source Raw copy data or rows of values.
+   * @param options Copy options.
+   */
+  copyFrom(table: string, source: CopySource, options?: CopyFromOptions): Promise<CopyResult>;
+
+  /**
+   * Exports the result of a query with `COPY (...) TO STDOUT`, writing the data
+   * to `destination` and ending it once the copy completes.
+   *
+   * @param query The query to export.
+   * @param destination The stream receiving the copy data.
+   * @param options Copy options.
+   */
+  copyTo(query: string, destination: NodeJS.WritableStream, options?: CopyOptions): Promise<CopyResult>;
 }
 
 /**
@@ -105,26 +610,226 @@ export interface IPgParallel {
   query<R extends QueryResultRow = any, I extends any[] = any[]>(
     config: QueryConfig<I> | string,
     values?: I,
+    options?: QueryOptions,
   ): Promise<QueryResult<R>>;
 
   /**
    * Executes a scoped function within a dedicated worker thread, providing a
    * client for database operations. Ideal for transactions and mixed workloads.
-   * The client is automatically managed.
+   * The client is automatically managed. Tasks created with `defineTask()` take
+   * an array of arguments, typed from the task's function.
+   */
+  worker<A extends any[], R>(task: TaskDefinition<A, R>, args: A, options?: WorkerOptions): Promise<R>;
+  worker<T>(task: (client: IParallelClient, context: WorkerContext) => Promise<T>, options?: WorkerOptions): Promise<T>;
+  worker<T>(task: WorkerFileTask, options?: WorkerOptions): Promise<T>;
+
+  /**
+   * Executes a scoped function inside a database transaction in a worker thread.
+   * The transaction is committed when the function resolves and rolled back when
+   * it throws. Serialization failures and deadlocks re-run the whole function.
    */
-  worker<T>(task: (client: IParallelClient) => Promise<T>): Promise<T>;
-  worker<T>(task: WorkerFileTask): Promise<T>;
+  transaction<T>(
+    task: (client: IParallelClient, context: WorkerContext) => Promise<T>,
+    options?: TransactionOptions,
+  ): Promise<T>;
+  transaction<T>(task: WorkerFileTask, options?: TransactionOptions): Promise<T>;
 
   /**
    * Executes a pure CPU-bound task in an available worker thread without
    * providing a database client.
    */
-  task<T, A extends any[]>(fn: (...args: A) => T | Promise<T>, args: A): Promise<T>;
+  task<T, A extends any[]>(fn: (...args: A) => T | Promise<T>, args: A, options?: TaskOptions): Promise<T>;
+  task<K extends keyof TaskRegistry>(name: K, args: TaskArgs<K>, options?: TaskOptions): Promise<TaskResult<K>>;
+  task<T = any>(name: string, args: any[], options?: TaskOptions): Promise<T>;
+
+  /**
+   * Runs a registered task in an available worker thread. The task's module is
+   * loaded once per worker, so nothing is compiled per call.
+   */
+  run<K extends keyof TaskRegistry>(name: K, ...args: TaskArgs<K>): Promise<TaskResult<K>>;
+  run<T = any>(name: string, ...args: any[]): Promise<T>;
+
+  /**
+   * Registers a task run by name with `run()` or `task()`. The module is loaded
+   * in every worker, including workers started later.
+   */
+  registerTask(name: string, modulePath: string, exportName?: string): void;
+
+  /**
+   * Reads the rows of a query through a server-side cursor in a worker thread.
+   * Rows are sent to the main thread in batches, and the worker fetches the next
+   * batch only once the consumer has started on the previous one.
+   */
+  stream<R extends QueryResultRow = any>(text: string, values?: any[], options?: StreamOptions): AsyncIterable<R>;
+
+  /**
+   * Loads data into a table with `COPY ... FROM STDIN` on a worker connection.
+   * The source is read on the calling thread and sent to the worker in chunks
+   * as fast as the database accepts them.
+   */
+  copyFrom(table: string, source: CopySource, options?: ParallelCopyFromOptions): Promise<CopyResult>;
+
+  /**
+   * Exports the result of a query with `COPY (...) TO STDOUT` on a worker
+   * connection, writing the data to `destination` on the calling thread and
+   * ending it once the copy completes.
+   */
+  copyTo(query: string, destination: NodeJS.WritableStream, options?: ParallelCopyOptions): Promise<CopyResult>;
+
+  /**
+   * Processes every row of a table in parallel. The table is split into
+   * partitions by key range or physical blocks, each partition is read through
+   * a cursor by a worker job, and `processor` runs in the worker on each batch
+   * of rows. If a partition fails, the others are cancelled.
+   */
+  scan<T, R extends QueryResultRow = any>(options: ScanOptions, processor: ScanProcessor<R, T>): Promise<ScanResult<T>>;
 
   /**
-   * Terminates all workers and closes all database connections.
+   * Applies `fn` to every item in worker threads. Items are sent in chunks to
+   * amortize message overhead. Rejects with the first failure; chunks not yet
+   * started are skipped.
    */
-  shutdown(): Promise<void>;
+  map<T, R>(items: Iterable<T>, fn: (item: T, index: number) => R | Promise<R>, options?: MapOptions): Promise<R[]>;
+
+  /**
+   * Like `map()`, but settles every item: failures are reported per item
+   * alongside the successful results.
+   */
+  mapSettled<T, R>(
+    items: Iterable<T>,
+    fn: (item: T, index: number) => R | Promise<R>,
+    options?: MapOptions,
+  ): Promise<PromiseSettledResult<R>[]>;
+
+  /**
+   * Folds the items in worker threads: each chunk is reduced from `initial` in a
+   * worker, and the chunk accumulators are combined on the calling thread. As
+   * every chunk starts from it, `initial` should be a neutral value such as `0`.
+   */
+  reduce<T, A>(
+    items: Iterable<T>,
+    reducer: (accumulator: A, item: T) => A | Promise<A>,
+    initial: A,
+    options?: ReduceOptions<A>,
+  ): Promise<A>;
+
+  /**
+   * Inserts or upserts rows in batches written in parallel by worker jobs, each
+   * in a transaction of its own. Failed batches are reported in the result
+   * without stopping the others.
+   */
+  bulkInsert(
+    table: string,
+    rows: Iterable<Record<string, unknown> | unknown[]>,
+    options?: BulkInsertOptions,
+  ): Promise<BulkInsertResult>;
+
+  /**
+   * Returns the current number of workers, busy workers and queued jobs.
+   */
+  getStats(): PgParallelStats;
+
+  /**
+   * Stops accepting new work, closes the worker pools and the main pool, and
+   * stops the worker threads. With `drain`, queued and in-flight jobs finish first.
+   */
+  shutdown(options?: ShutdownOptions): Promise<void>;
+}
+
+/**
+ * Points at a function exported by a module, for hooks that have to run inside
+ * worker threads where functions cannot be passed directly.
+ */
+export interface ModuleReference {
+  /** The absolute path to the module file. */
+  modulePath: string;
+  /** The name of the exported function; each hook documents its default. */
+  exportName?: string;
+}
+
+/**
+ * Maps the names of registered tasks to their function types, so `run()` and
+ * `task()` can check arguments and infer results. Extend it by declaration
+ * merging:
+ *
+ * ```ts
+ * declare module 'pg-parallel' {
+ *   interface TaskRegistry {
+ *     resize: typeof import('./tasks/images').resize;
+ *   }
+ * }
+ * ```
+ */
+export interface TaskRegistry {}
+
+/**
+ * Describes the value returned by the `workerSetup` hook, which functions run
+ * by `worker()` and `transaction()` receive as their `context` argument. Extend
+ * it by declaration merging:
+ *
+ * ```ts
+ * declare module 'pg-parallel' {
+ *   interface WorkerContext {
+ *     model: import('./model').Model;
+ *   }
+ * }
+ * ```
+ */
+export interface WorkerContext {}
+
+/**
+ * Arguments of a registered task.
+ */
+export type TaskArgs<K extends keyof TaskRegistry> = TaskRegistry[K] extends (...args: infer A) => any ? A : any[];
+
+/**
+ * Resolved result of a registered task.
+ */
+export type TaskResult<K extends keyof TaskRegistry> = TaskRegistry[K] extends (...args: any[]) => infer R
+  ? Awaited<R>
+  : any;
+
+/**
+ * Built-in parsers for the text representation of a column value.
+ * - `string`: the raw text, e.g. to keep `date` or `numeric` values as strings
+ * - `number`: a JavaScript number
+ * - `integer`: an integer, parsed with `parseInt`
+ * - `bigint`: a `BigInt`, e.g. for `int8` values beyond `Number.MAX_SAFE_INTEGER`
+ * - `boolean`: `true` for `t` or `true`
+ * - `json`: the parsed JSON document
+ */
+export type TypeParserName = 'string' | 'number' | 'integer' | 'bigint' | 'boolean' | 'json';
+
+/**
+ * A built-in parser, or a module exporting one; the export defaults to `parse`
+ * and receives the value's text.
+ */
+export type TypeParserSpec = TypeParserName | ModuleReference;
+
+/**
+ * SQL statements run in order on a connection, or a module exporting a
+ * `(client) => Promise<void>` function that receives the raw `pg` client.
+ */
+export type ConnectionHook = string | string[] | ModuleReference;
+
+/**
+ * Propagates async context, such as request, tenant or trace IDs held in an
+ * `AsyncLocalStorage`, from the calling thread into the worker running a job.
+ */
+export interface AsyncContextConfig {
+  /**
+   * Reads the values to propagate on the calling thread when a `task()`,
+   * `worker()` or `transaction()` call is made. They are sent with the job, so
+   * they must survive structured cloning; `undefined` propagates nothing.
+   */
+  capture: () => Record<string, unknown> | undefined;
+  /**
+   * Module exporting a `(values, fn) => unknown` function (export `restore` by
+   * default) that runs `fn` inside the application's own storage in workers,
+   * e.g. `(values, fn) => requestContext.run(values, fn)`. The values are also
+   * available through `getAsyncContext()` either way.
+   */
+  restore?: ModuleReference;
 }
 
 /**
@@ -142,6 +847,111 @@ export interface PgParallelConfig extends PoolConfig {
   retry?: RetryConfig;
   /** Optional circuit breaker configuration for database operations. */
   circuitBreaker?: CircuitBreakerConfig;
+  /**
+   * Default timeout in milliseconds for `query`, `task`, `worker` and
+   * `transaction` calls. A timed-out `worker` or `transaction` job has its
+   * statement cancelled, and its worker thread replaced if it does not stop
+   * within a second; a timed-out task has its worker thread terminated and
+   * replaced.
+   */
+  timeoutMs?: number;
+  /**
+   * Respawn policy for workers that crash or exit unexpectedly. Requests in
+   * flight on a crashed worker are rejected with a `CONNECTION` error.
+   */
+  workerRespawn?: WorkerRespawnConfig;
+  /**
+   * Maximum number of jobs waiting for a free worker. When the queue is full,
+   * `rejectionPolicy` decides what happens to new jobs.
+   * @default Infinity
+   */
+  maxQueueSize?: number;
+  /**
+   * Maximum time in milliseconds a job may wait in the queue before being
+   * rejected with a `TIMEOUT` error. Time spent running is governed by `timeoutMs`.
+   */
+  queueTimeoutMs?: number;
+  /**
+   * Policy applied when every worker is busy and the queue is full.
+   * @default 'reject'
+   */
+  rejectionPolicy?: RejectionPolicy;
+  /**
+   * Waiting time in milliseconds that raises a queued job's priority by one
+   * level, so low priority work is not starved. `0` disables aging.
+   * @default 1000
+   */
+  priorityAgingMs?: number;
+  /**
+   * Maximum number of `task`, `worker` and `transaction` jobs a single worker
+   * runs at the same time. Jobs beyond that wait in the queue.
+   * @default 1
+   */
+  workerConcurrency?: number;
+  /**
+   * Strategy used to pick the worker for the next job.
+   * @default 'round-robin'
+   */
+  scheduler?: SchedulerStrategy;
+  /**
+   * Shuts the instance down when the process receives SIGTERM or SIGINT. `true`
+   * drains with a 10 second deadline; pass an object to choose the signals and
+   * shutdown options. Once shut down, the signal is re-raised unless another
+   * listener handles it.
+   * @default false
+   */
+  handleSignals?: boolean | SignalHandlingConfig;
+  /**
+   * Module exporting a `(value) => unknown` function (export `serialize` by
+   * default) that converts worker results structured clone cannot copy, such
+   * as objects holding functions. Defaults to a JSON round-trip.
+   */
+  resultSerializer?: ModuleReference;
+  /**
+   * Tasks run by name with `run()` or `task()`, each loaded once in every
+   * worker when it starts. The export defaults to the task's name.
+   */
+  tasks?: Record<string, ModuleReference>;
+  /**
+   * Module required before loading task modules, in every worker and on the
+   * calling thread, to register a loader such as `ts-node/register` so
+   * TypeScript tasks run without a build step.
+   */
+  taskLoader?: string;
+  /**
+   * Hook run once by every worker before it takes jobs, e.g. to load caches or
+   * models; the export defaults to `setup`. Its result is passed to tasks as a
+   * `context` argument after their own arguments. Workers whose setup fails are
+   * stopped, and the failure rejects `warmup()` and the calls waiting for them.
+   */
+  workerSetup?: ModuleReference;
+  /**
+   * Parsers for column values, keyed by type OID or name (`int8`, `my_enum`,
+   * `my_schema.my_type[]`), installed identically on the main pool and in every
+   * worker. Names are resolved to OIDs once, before the first query or worker
+   * starts, and the parser of a type also applies to the elements of its array
+   * type unless that one has a parser of its own.
+   */
+  typeParsers?: Record<string, TypeParserSpec>;
+  /**
+   * Runs once on every new connection of the main pool and of each worker's
+   * pool, before the connection is first used, e.g. to `SET search_path` or
+   * `SET ROLE`. A module hook's export defaults to `onConnect`. Connections
+   * whose hook fails are discarded and the checkout fails.
+   */
+  onConnect?: ConnectionHook;
+  /**
+   * Runs every time a connection is checked out of the main pool or a worker's
+   * pool, e.g. to reset session state left by the previous user. A module
+   * hook's export defaults to `onCheckout`.
+   */
+  onCheckout?: ConnectionHook;
+  /**
+   * Captures async context when jobs are submitted and restores it in the
+   * worker running them, so logs and queries made by tasks see the caller's
+   * request or trace IDs.
+   */
+  asyncContext?: AsyncContextConfig;
 }
 
 /**
@@ -149,7 +959,8 @@ export interface PgParallelConfig extends PoolConfig {
  */
 export interface WorkerFileTask {
   /**
-   * The absolute path to the module file.
+   * The absolute path to the module file, or its `file://` URL. CommonJS and
+   * ES modules are supported, and TypeScript modules with a `taskLoader`.
    */
   taskPath: string;
   /**
@@ -161,3 +972,20 @@ export interface WorkerFileTask {
    */
   args?: any[];
 }
+
+/**
+ * A file-based task created with `defineTask()`. It is the exported function
+ * itself, tagged with the path of the module exporting it, so `worker()` can
+ * run it in a worker thread with its argument and result types checked.
+ */
+export type TaskDefinition<A extends any[] = any[], R = any> = ((client: IParallelClient, ...args: A) => Promise<R>) & {
+  /**
+   * The absolute path to the module exporting the task.
+   */
+  readonly taskPath: string;
+  /**
+   * The position of the task among those defined by its module, which finds it
+   * among the module's exports in a worker.
+   */
+  readonly taskIndex: number;
+};
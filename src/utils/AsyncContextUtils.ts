@@ -0,0 +1,106 @@
+/**
+ * @file Utilities for carrying async context from the calling thread into workers
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { AsyncContextConfig, ModuleReference } from '../types';
+import { ModuleUtils } from './ModuleUtils';
+
+/**
+ * Values captured from the async context of the caller
+ */
+export type AsyncContextValues = Record<string, unknown>;
+
+/**
+ * Runs `fn` inside the application's own async context, restored from the
+ * captured values
+ */
+export type AsyncContextRestore = (values: AsyncContextValues, fn: () => unknown) => unknown;
+
+/**
+ * Async context utilities for pg-parallel
+ */
+export class AsyncContextUtils {
+  // Kept on `globalThis`: a task module that loads its own copy of pg-parallel must still see the job's context
+  private static readonly STORAGE_KEY = Symbol.for('pg-parallel.asyncContext');
+
+  /**
+   * Checks the propagation config on the calling thread.
+   * @param config - The propagation config
+   */
+  static validateConfig(config: AsyncContextConfig): void {
+    if (!config || typeof config.capture !== 'function') {
+      throw new Error('asyncContext.capture must be a function.');
+    }
+    if (config.restore !== undefined && (!config.restore || typeof config.restore.modulePath !== 'string')) {
+      throw new Error('asyncContext.restore needs a module path.');
+    }
+  }
+
+  /**
+   * Captures the values to propagate, at the time a job is submitted.
+   * @param config - The propagation config, if any
+   * @returns The values, or `undefined` when there is nothing to propagate
+   */
+  static capture(config: AsyncContextConfig | undefined): AsyncContextValues | undefined {
+    if (!config) return undefined;
+    const values = config.capture();
+    if (values === undefined || values === null) return undefined;
+    if (typeof values !== 'object' || Array.isArray(values)) {
+      throw new Error('asyncContext.capture must return an object or undefined.');
+    }
+    return values;
+  }
+
+  /**
+   * Loads the function restoring the application's async context in a worker.
+   * @param reference - The module exporting it
+   * @param loader - Module registering a loader for TypeScript modules
+   * @returns The restore function
+   */
+  static async loadRestore(reference: ModuleReference, loader?: string | null): Promise<AsyncContextRestore> {
+    const exportName = reference.exportName || 'restore';
+    const restore = (await ModuleUtils.importModule(reference.modulePath, loader))[exportName];
+    if (typeof restore !== 'function') {
+      throw new Error(`Async context restore '${exportName}' not found or not a function in ${reference.modulePath}`);
+    }
+    return restore;
+  }
+
+  /**
+   * Runs `fn` with the captured values available through `getAsyncContext()`,
+   * and inside the application's own context when a restore function is given.
+   * @param values - The captured values
+   * @param restore - Optional function restoring the application's context
+   * @param fn - The function to run
+   * @returns The result of `fn`
+   */
+  static async run<T>(
+    values: AsyncContextValues | undefined,
+    restore: AsyncContextRestore | undefined,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    if (!values) return fn();
+    return this.storage.run(values, () => (restore ? (restore(values, fn) as Promise<T>) : fn()));
+  }
+
+  /**
+   * Returns the values propagated to the running job, in workers and on the
+   * calling thread alike.
+   * @returns The values, or `undefined` outside a job or when none were captured
+   */
+  static getContext<T extends AsyncContextValues = AsyncContextValues>(): T | undefined {
+    return AsyncContextUtils.storage.getStore() as T | undefined;
+  }
+
+  private static get storage(): AsyncLocalStorage<AsyncContextValues> {
+    const store = globalThis as any;
+    return (store[this.STORAGE_KEY] ??= new AsyncLocalStorage<AsyncContextValues>());
+  }
+}
+
+/**
+ * Returns the async context values propagated to the running job. See
+ * {@link AsyncContextUtils.getContext}.
+ */
+export const getAsyncContext = AsyncContextUtils.getContext;
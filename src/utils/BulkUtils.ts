@@ -0,0 +1,150 @@
+/**
+ * @file Utilities for building batched INSERT and upsert statements
+ */
+
+import { BulkConflictOptions, BulkInsertOptions } from '../types';
+import { CursorQuery } from './CursorUtils';
+import { TransactionUtils } from './TransactionUtils';
+
+/**
+ * A statement run by a worker job, in a transaction of its own
+ */
+export interface StatementTask {
+  statement: { text: string; values: any[] };
+}
+
+/**
+ * Bulk insert utilities for pg-parallel
+ */
+export class BulkUtils {
+  static readonly DEFAULT_BATCH_SIZE = 1000;
+
+  /** PostgreSQL's limit on the number of parameters of a statement. */
+  static readonly MAX_PARAMETERS = 65535;
+
+  /**
+   * Resolves the columns inserted, validating the conflict options against them.
+   * @param first - The first row
+   * @param options - Bulk insert options
+   * @returns The columns, in order
+   */
+  static resolveColumns(first: Record<string, unknown> | unknown[], options: BulkInsertOptions): string[] {
+    const columns = options.columns ?? (Array.isArray(first) ? undefined : Object.keys(first));
+    if (!columns || columns.length === 0) {
+      throw new Error('Columns are required for rows given as arrays.');
+    }
+    if (options.onConflict) this.buildConflictClause(columns, options.onConflict);
+    return columns;
+  }
+
+  /**
+   * Validates the batch size, defaulting to one that fits the parameter limit.
+   * @param batchSize - The requested batch size
+   * @param columnCount - Number of columns inserted
+   * @param method - How statements are built
+   * @returns The number of rows per statement
+   */
+  static resolveBatchSize(
+    batchSize: number | undefined,
+    columnCount: number,
+    method: BulkInsertOptions['method'] = 'values',
+  ): number {
+    const limit = method === 'values' ? Math.floor(this.MAX_PARAMETERS / columnCount) : Infinity;
+    if (batchSize === undefined) return Math.min(this.DEFAULT_BATCH_SIZE, limit);
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new Error(`Invalid batch size '${batchSize}'.`);
+    }
+    if (batchSize > limit) {
+      throw new Error(
+        `Batches of ${batchSize} rows of ${columnCount} columns exceed the ${this.MAX_PARAMETERS} parameters of a statement; lower batchSize or use the 'unnest' method.`,
+      );
+    }
+    return batchSize;
+  }
+
+  /**
+   * Looks up the types of the inserted columns, which `unnest` statements cast
+   * their array parameters to.
+   * @param query - Executes the lookup
+   * @param table - The table, optionally schema-qualified
+   * @param columns - The inserted columns
+   * @returns The SQL type of each column, in order
+   */
+  static async loadColumnTypes(query: CursorQuery, table: string, columns: string[]): Promise<string[]> {
+    const { rows } = await query(
+      'SELECT attname AS name, format_type(atttypid, atttypmod) AS type FROM pg_attribute WHERE attrelid = $1::regclass AND attname = ANY($2) AND NOT attisdropped',
+      [TransactionUtils.quoteQualifiedName(table), columns],
+    );
+    const types = new Map<string, string>(rows.map((row) => [row.name, row.type]));
+    return columns.map((column) => {
+      const type = types.get(column);
+      if (!type) throw new Error(`Column '${column}' not found in table '${table}'.`);
+      if (type.endsWith(']')) throw new Error(`The unnest method does not support array column '${column}'.`);
+      return type;
+    });
+  }
+
+  /**
+   * Builds the statement writing a batch of rows. It reports how many rows were
+   * inserted and how many existing rows were updated, in a single row.
+   * @param table - The table, optionally schema-qualified
+   * @param columns - The inserted columns
+   * @param rows - The rows of the batch, as objects or arrays of values
+   * @param options - Bulk insert options
+   * @param columnTypes - Column types, required by the `unnest` method
+   * @returns The statement and its values
+   */
+  static buildInsertStatement(
+    table: string,
+    columns: string[],
+    rows: (Record<string, unknown> | unknown[])[],
+    options: BulkInsertOptions = {},
+    columnTypes?: string[],
+  ): StatementTask['statement'] {
+    const records = rows.map((row) => (Array.isArray(row) ? row : columns.map((column) => row[column])));
+    const target = `${TransactionUtils.quoteQualifiedName(table)} (${columns.map((column) => TransactionUtils.quoteIdentifier(column)).join(', ')})`;
+
+    let source: string;
+    let values: any[];
+    if (options.method === 'unnest') {
+      values = columns.map((_, i) => records.map((record) => record[i] ?? null));
+      source = `SELECT * FROM unnest(${columnTypes!.map((type, i) => `$${i + 1}::${type}[]`).join(', ')})`;
+    } else {
+      values = [];
+      const tuples = records.map((record) => {
+        const placeholders = columns.map((_, i) => {
+          values.push(record[i] ?? null);
+          return `$${values.length}`;
+        });
+        return `(${placeholders.join(', ')})`;
+      });
+      source = `VALUES ${tuples.join(', ')}`;
+    }
+
+    const conflict = options.onConflict ? ` ${this.buildConflictClause(columns, options.onConflict)}` : '';
+    // xmax is only set on rows that existed before, which tells updates from inserts
+    const text =
+      `WITH written AS (INSERT INTO ${target} ${source}${conflict} RETURNING (xmax = 0) AS inserted) ` +
+      'SELECT count(*) FILTER (WHERE inserted)::int AS inserted, count(*) FILTER (WHERE NOT inserted)::int AS updated FROM written';
+    return { text, values };
+  }
+
+  private static buildConflictClause(columns: string[], onConflict: BulkConflictOptions): string {
+    const target = onConflict.target?.length
+      ? ` (${onConflict.target.map((column) => TransactionUtils.quoteIdentifier(column)).join(', ')})`
+      : '';
+    if (onConflict.action === 'nothing') return `ON CONFLICT${target} DO NOTHING`;
+    if (onConflict.action !== 'update') {
+      throw new Error(`Invalid conflict action '${onConflict.action}'.`);
+    }
+    if (!target) throw new Error('A conflict target is required for the update action.');
+
+    const updated = onConflict.update ?? columns.filter((column) => !onConflict.target!.includes(column));
+    if (updated.length === 0) throw new Error('No columns left to update on conflict.');
+    const assignments = updated.map((column) => {
+      const quoted = TransactionUtils.quoteIdentifier(column);
+      return `${quoted} = EXCLUDED.${quoted}`;
+    });
+    return `ON CONFLICT${target} DO UPDATE SET ${assignments.join(', ')}`;
+  }
+}
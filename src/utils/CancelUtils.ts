@@ -0,0 +1,62 @@
+/**
+ * @file Utilities for cancelling in-flight operations
+ */
+
+import { Client, ClientConfig } from 'pg';
+import { PgParallelError } from '../types';
+
+/**
+ * Cancellation utilities for pg-parallel
+ */
+export class CancelUtils {
+  /**
+   * Creates the error used to reject a cancelled operation.
+   * @param signal - The signal that was aborted
+   * @returns A PgParallelError with the `CANCELLED` category
+   */
+  static createCancelledError(signal?: AbortSignal): PgParallelError {
+    return new PgParallelError('Operation was cancelled', 'CANCELLED', signal?.reason);
+  }
+
+  /**
+   * Creates the error used to reject an operation that exceeded its timeout.
+   * @param timeoutMs - The timeout that was exceeded
+   * @returns A PgParallelError with the `TIMEOUT` category
+   */
+  static createTimeoutError(timeoutMs: number): PgParallelError {
+    return new PgParallelError(`Operation timed out after ${timeoutMs}ms`, 'TIMEOUT');
+  }
+
+  /**
+   * Throws a cancellation error if the signal has already been aborted.
+   * @param signal - Optional abort signal
+   */
+  static throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw this.createCancelledError(signal);
+    }
+  }
+
+  /**
+   * Cancels the statement currently running on a backend, with
+   * `pg_cancel_backend` semantics. A dedicated connection is used so that the
+   * cancel request never waits behind a saturated pool.
+   * @param config - Connection configuration used to reach the server
+   * @param processId - Backend process ID of the connection to cancel
+   * @returns True if the cancel request was delivered to the backend
+   */
+  static async cancelBackend(config: ClientConfig, processId: number | null | undefined): Promise<boolean> {
+    if (!processId) return false;
+
+    const client = new Client(config);
+    await client.connect();
+    try {
+      const { rows } = await client.query<{ cancelled: boolean }>('SELECT pg_cancel_backend($1) AS cancelled', [
+        processId,
+      ]);
+      return rows[0]?.cancelled === true;
+    } finally {
+      await client.end();
+    }
+  }
+}
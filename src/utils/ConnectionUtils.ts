@@ -0,0 +1,125 @@
+/**
+ * @file Utilities for running session setup on the connections of a pool
+ */
+
+import { Pool, PoolClient, PoolConfig } from 'pg';
+import { ConnectionHook, ModuleReference } from '../types';
+import { ModuleUtils } from './ModuleUtils';
+
+/**
+ * Prepares a connection, e.g. by setting session parameters
+ */
+export type ConnectionHookFunction = (client: PoolClient) => unknown;
+
+/**
+ * The hooks run on the connections of a pool
+ */
+export interface ConnectionHooks {
+  /** Runs once on every new connection, before its first use. */
+  onConnect?: ConnectionHook;
+  /** Runs every time a connection is checked out of the pool. */
+  onCheckout?: ConnectionHook;
+}
+
+/**
+ * Connection hook utilities for pg-parallel
+ */
+export class ConnectionUtils {
+  /**
+   * Creates a pool running the connection hooks. A connection whose hook fails
+   * is discarded, and the checkout fails with the hook's error.
+   * @param config - The pool configuration
+   * @param hooks - The connection hooks
+   * @param loader - Module registering a loader for TypeScript hook modules
+   * @returns The pool
+   */
+  static createPool(config: PoolConfig, hooks: ConnectionHooks, loader?: string | null): Pool {
+    const onConnect = hooks.onConnect && this.createHook(hooks.onConnect, 'onConnect', loader);
+    // pg-pool waits for `verify` before handing out a new connection
+    const pool = new Pool({
+      ...config,
+      ...(onConnect
+        ? { verify: (client: PoolClient, done: (err?: Error) => void) => onConnect(client).then(() => done(), done) }
+        : {}),
+    } as PoolConfig);
+    if (hooks.onCheckout) this.wrapCheckout(pool, this.createHook(hooks.onCheckout, 'onCheckout', loader));
+    return pool;
+  }
+
+  /**
+   * Turns a hook into a function run on a connection. Module hooks are loaded
+   * on first use, and again on the next use if loading fails.
+   * @param hook - SQL statements, or the module exporting the hook
+   * @param defaultExport - The export used when the reference names none
+   * @param loader - Module registering a loader for TypeScript hook modules
+   * @returns The function running the hook
+   */
+  static createHook(
+    hook: ConnectionHook,
+    defaultExport: string,
+    loader?: string | null,
+  ): (client: PoolClient) => Promise<void> {
+    if (typeof hook === 'string' || Array.isArray(hook)) {
+      const statements = typeof hook === 'string' ? [hook] : hook;
+      return async (client) => {
+        for (const statement of statements) await client.query(statement);
+      };
+    }
+    this.validateReference(hook, defaultExport);
+    let loaded: Promise<ConnectionHookFunction> | undefined;
+    return async (client) => {
+      loaded ??= this.loadHook(hook, defaultExport, loader).catch((error) => {
+        // A module that failed to load is loaded again by the next connection
+        loaded = undefined;
+        throw error;
+      });
+      await (
+        await loaded
+      )(client);
+    };
+  }
+
+  private static validateReference(reference: ModuleReference, defaultExport: string): void {
+    if (!reference || typeof reference.modulePath !== 'string' || reference.modulePath.length === 0) {
+      throw new Error(`The ${defaultExport} hook needs SQL statements or a module path.`);
+    }
+  }
+
+  private static async loadHook(
+    reference: ModuleReference,
+    defaultExport: string,
+    loader?: string | null,
+  ): Promise<ConnectionHookFunction> {
+    const exportName = reference.exportName || defaultExport;
+    const hook = (await ModuleUtils.importModule(reference.modulePath, loader))[exportName];
+    if (typeof hook !== 'function') {
+      throw new Error(`Connection hook '${exportName}' not found or not a function in ${reference.modulePath}`);
+    }
+    return hook;
+  }
+
+  /**
+   * Runs a hook on every checkout, including those made by `pool.query()`,
+   * which checks out through `connect()` with a callback.
+   */
+  private static wrapCheckout(pool: Pool, onCheckout: (client: PoolClient) => Promise<void>): void {
+    const connect = pool.connect.bind(pool) as () => Promise<PoolClient>;
+    const checkout = async (): Promise<PoolClient> => {
+      const client = await connect();
+      try {
+        await onCheckout(client);
+      } catch (error) {
+        client.release(error as Error);
+        throw error;
+      }
+      return client;
+    };
+    pool.connect = ((callback?: (err: Error | undefined, client?: PoolClient, done?: () => void) => void) => {
+      if (!callback) return checkout();
+      checkout().then(
+        (client) => callback(undefined, client, client.release),
+        (error) => callback(error, undefined, () => {}),
+      );
+    }) as Pool['connect'];
+  }
+}
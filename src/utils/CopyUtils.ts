@@ -0,0 +1,228 @@
+/**
+ * @file Utilities for loading and exporting data with the COPY protocol
+ */
+
+import { Readable } from 'stream';
+import { types } from 'util';
+import { pipeline } from 'stream/promises';
+import type { Submittable } from 'pg';
+import type { CopyStreamQuery, CopyToStreamQuery } from 'pg-copy-streams';
+import { CopyFormat, CopyFromOptions, CopyOptions, CopyResult, CopySource, CopySourceItem } from '../types';
+import { TransactionUtils } from './TransactionUtils';
+
+/**
+ * A connection able to run a `COPY` stream
+ */
+export interface CopyClient {
+  query<T extends Submittable>(stream: T): T;
+}
+
+/**
+ * COPY utilities for pg-parallel
+ */
+export class CopyUtils {
+  /** Copy data is sent in chunks of about this many bytes. */
+  static readonly CHUNK_SIZE = 64 * 1024;
+
+  private static readonly FORMATS = new Set<CopyFormat>(['text', 'csv', 'binary']);
+
+  // `pg-copy-streams` is an optional peer dependency, loaded on first use
+  private static copyStreams?: {
+    from: (text: string) => CopyStreamQuery;
+    to: (text: string) => CopyToStreamQuery;
+  };
+
+  /**
+   * Loads the `pg-copy-streams` package that implements the COPY sub-protocol.
+   * @returns The package's `from` and `to` stream factories
+   */
+  static loadCopyStreams(): NonNullable<typeof CopyUtils.copyStreams> {
+    if (!this.copyStreams) {
+      try {
+        this.copyStreams = require('pg-copy-streams');
+      } catch {
+        throw new Error("COPY support requires the 'pg-copy-streams' package: npm install pg-copy-streams");
+      }
+    }
+    return this.copyStreams!;
+  }
+
+  /**
+   * Builds the `COPY ... FROM STDIN` statement for a table.
+   * @param table - The table to load, optionally schema-qualified
+   * @param options - Copy options
+   * @returns The SQL statement
+   */
+  static buildCopyFromStatement(table: string, options: CopyFromOptions = {}): string {
+    const target = TransactionUtils.quoteQualifiedName(table);
+    const columns = options.columns?.length
+      ? ` (${options.columns.map((column) => TransactionUtils.quoteIdentifier(column)).join(', ')})`
+      : '';
+    return `COPY ${target}${columns} FROM STDIN ${this.buildOptionsClause(options)}`;
+  }
+
+  /**
+   * Builds the `COPY (...) TO STDOUT` statement exporting a query.
+   * @param query - The query to export
+   * @param options - Copy options
+   * @returns The SQL statement
+   */
+  static buildCopyToStatement(query: string, options: CopyOptions = {}): string {
+    return `COPY (${query.trim().replace(/;+$/, '')}) TO STDOUT ${this.buildOptionsClause(options)}`;
+  }
+
+  /**
+   * Encodes a row of values as a line of copy data. `null` and `undefined`
+   * become SQL `NULL`, Buffers `bytea` hex strings, Dates ISO 8601 timestamps,
+   * arrays PostgreSQL array literals and other objects JSON.
+   * @param row - The values of the row
+   * @param format - `text` or `csv`
+   * @returns The encoded line, including its line break
+   */
+  static formatRow(row: unknown[], format: CopyFormat = 'text'): string {
+    if (format === 'binary') {
+      throw new Error('Rows must be encoded as Buffers for the binary copy format.');
+    }
+    const separator = format === 'csv' ? ',' : '\t';
+    return row.map((value) => this.formatValue(value, format)).join(separator) + '\n';
+  }
+
+  /**
+   * Turns a copy source into chunks of copy data of about `chunkSize` bytes.
+   * @param source - Raw copy data or rows of values
+   * @param format - Format used to encode rows
+   * @param chunkSize - Target size of the chunks
+   * @returns An async iterator over the chunks
+   */
+  static async *encodeSource(
+    source: CopySource,
+    format: CopyFormat = 'text',
+    chunkSize: number = this.CHUNK_SIZE,
+  ): AsyncGenerator<Buffer, void, undefined> {
+    let pending: Buffer[] = [];
+    let size = 0;
+    for await (const item of source) {
+      const chunk = this.toChunk(item, format);
+      if (chunk.length === 0) continue;
+      if (size === 0 && chunk.length >= chunkSize) {
+        yield chunk;
+        continue;
+      }
+      pending.push(chunk);
+      size += chunk.length;
+      if (size >= chunkSize) {
+        yield Buffer.concat(pending, size);
+        pending = [];
+        size = 0;
+      }
+    }
+    if (size > 0) yield Buffer.concat(pending, size);
+  }
+
+  /**
+   * Runs `COPY ... FROM STDIN` on a connection. When the source fails, the copy
+   * is aborted and nothing is loaded.
+   * @param client - The connection running the copy
+   * @param statement - The `COPY` statement
+   * @param source - Raw copy data or rows of values
+   * @param format - Format used to encode rows
+   * @returns The number of rows loaded and bytes sent
+   */
+  static async copyFrom(
+    client: CopyClient,
+    statement: string,
+    source: CopySource,
+    format?: CopyFormat,
+  ): Promise<CopyResult> {
+    const stream = client.query(this.loadCopyStreams().from(statement));
+    let bytes = 0;
+    const chunks = this.encodeSource(source, format);
+    async function* count() {
+      for await (const chunk of chunks) {
+        bytes += chunk.length;
+        yield chunk;
+      }
+    }
+    await pipeline(Readable.from(count()), stream);
+    return { rowCount: stream.rowCount, bytes };
+  }
+
+  /**
+   * Runs `COPY ... TO STDOUT` on a connection, writing the data to
+   * `destination` and ending it. A copy that stops before the end leaves the
+   * connection unusable, so it must be discarded rather than reused.
+   * @param client - The connection running the copy
+   * @param statement - The `COPY` statement
+   * @param destination - The stream receiving the copy data
+   * @returns The number of rows exported and bytes received
+   */
+  static async copyTo(client: CopyClient, statement: string, destination: NodeJS.WritableStream): Promise<CopyResult> {
+    const stream = client.query(this.loadCopyStreams().to(statement));
+    let bytes = 0;
+    await pipeline(
+      stream,
+      async function* (chunks: AsyncIterable<Buffer>) {
+        for await (const chunk of chunks) {
+          bytes += chunk.length;
+          yield chunk;
+        }
+      },
+      destination,
+    );
+    return { rowCount: stream.rowCount, bytes };
+  }
+
+  private static buildOptionsClause(options: CopyOptions): string {
+    const format = options.format ?? 'text';
+    if (!this.FORMATS.has(format)) {
+      throw new Error(`Invalid copy format '${format}'.`);
+    }
+    const parts = [`FORMAT ${format}`];
+    if (options.header) {
+      if (format !== 'csv') {
+        throw new Error('The header option is only available for the csv copy format.');
+      }
+      parts.push('HEADER');
+    }
+    return `WITH (${parts.join(', ')})`;
+  }
+
+  private static toChunk(item: CopySourceItem, format: CopyFormat): Buffer {
+    if (Buffer.isBuffer(item)) return item;
+    if (typeof item === 'string') return Buffer.from(item);
+    if (types.isUint8Array(item)) return Buffer.from(item.buffer, item.byteOffset, item.byteLength);
+    if (Array.isArray(item)) return Buffer.from(this.formatRow(item, format));
+    throw new TypeError(`Unsupported copy data of type '${typeof item}'.`);
+  }
+
+  private static formatValue(value: unknown, format: CopyFormat): string {
+    if (value === null || value === undefined) {
+      return format === 'csv' ? '' : '\\N';
+    }
+    const text = this.stringifyValue(value);
+    if (format === 'csv') {
+      // Empty strings are quoted to tell them apart from NULL
+      return text === '' || /[",\r\n]/.test(text) || text === '\\.' ? `"${text.replace(/"/g, '""')}"` : text;
+    }
+    return text.replace(/[\\\n\r\t]/g, (char) => ({ '\\': '\\\\', '\n': '\\n', '\r': '\\r', '\t': '\\t' })[char]!);
+  }
+
+  private static stringifyValue(value: unknown): string {
+    if (types.isDate(value)) return value.toISOString();
+    if (types.isUint8Array(value))
+      return `\\x${Buffer.from(value.buffer, value.byteOffset, value.byteLength).toString('hex')}`;
+    if (Array.isArray(value)) return this.formatArray(value);
+    if (typeof value === 'object') return JSON.stringify(value);
+    if (typeof value === 'boolean') return value ? 't' : 'f';
+    return String(value);
+  }
+
+  private static formatArray(values: unknown[]): string {
+    const elements = values.map((value) => {
+      if (value === null || value === undefined) return 'NULL';
+      if (Array.isArray(value)) return this.formatArray(value);
+      return `"${this.stringifyValue(value).replace(/[\\"]/g, (char) => `\\${char}`)}"`;
+    });
+    return `{${elements.join(',')}}`;
+  }
+}
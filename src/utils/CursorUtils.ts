@@ -0,0 +1,108 @@
+/**
+ * @file Utilities for reading query results through server-side cursors
+ */
+
+import { QueryResult } from 'pg';
+import { TransactionScope, TransactionUtils } from './TransactionUtils';
+
+/**
+ * Executes a statement on the connection that owns the cursor
+ */
+export type CursorQuery = (text: string, values?: any[]) => Promise<QueryResult<any>>;
+
+/**
+ * Cursor utilities for pg-parallel
+ */
+export class CursorUtils {
+  static readonly DEFAULT_BATCH_SIZE = 100;
+
+  // Cursor names only have to be unique per connection
+  private static cursorCounter = 0;
+
+  /**
+   * Validates the number of rows fetched from a cursor at a time.
+   * @param batchSize - The requested batch size
+   * @returns The batch size, defaulting to `DEFAULT_BATCH_SIZE`
+   */
+  static resolveBatchSize(batchSize: number = this.DEFAULT_BATCH_SIZE): number {
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new Error(`Invalid batch size '${batchSize}'.`);
+    }
+    return batchSize;
+  }
+
+  /**
+   * Reads the rows of a query in batches through a server-side cursor, fetching
+   * the next batch only when the previous one has been consumed. Outside a
+   * transaction the cursor gets its own, which is committed once the rows have
+   * been read or the iteration stops early, and rolled back on errors.
+   * @param query - Executes a statement on the connection owning the scope
+   * @param scope - Transaction scope of that connection
+   * @param text - The query to read
+   * @param values - Values for the query's placeholders
+   * @param batchSize - Number of rows fetched at a time
+   * @returns An async iterator over the batches of rows
+   */
+  static async *fetchBatches<R = any>(
+    query: CursorQuery,
+    scope: TransactionScope,
+    text: string,
+    values?: any[],
+    batchSize: number = this.DEFAULT_BATCH_SIZE,
+  ): AsyncGenerator<R[], void, undefined> {
+    this.cursorCounter += 1;
+    const cursor = TransactionUtils.quoteIdentifier(`pg_parallel_cursor_${this.cursorCounter}`);
+    const ownsTransaction = scope.depth === 0;
+
+    if (ownsTransaction) await query('BEGIN');
+    scope.depth += 1;
+    let failed = false;
+    try {
+      // DECLARE takes a single statement, so a trailing semicolon has to go
+      await query(`DECLARE ${cursor} NO SCROLL CURSOR FOR ${text.trim().replace(/;+$/, '')}`, values);
+      while (true) {
+        const { rows } = await query(`FETCH ${batchSize} FROM ${cursor}`);
+        if (rows.length > 0) yield rows;
+        if (rows.length < batchSize) break;
+      }
+    } catch (error) {
+      failed = true;
+      throw error;
+    } finally {
+      scope.depth -= 1;
+      if (!failed) {
+        try {
+          await query(`CLOSE ${cursor}`);
+          if (ownsTransaction) await query('COMMIT');
+        } catch (error) {
+          if (ownsTransaction) await query('ROLLBACK').catch(() => undefined);
+          throw error;
+        }
+      } else if (ownsTransaction) {
+        await query('ROLLBACK').catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Reads the rows of a query one by one through a server-side cursor.
+   * @see fetchBatches
+   * @param query - Executes a statement on the connection owning the scope
+   * @param scope - Transaction scope of that connection
+   * @param text - The query to read
+   * @param values - Values for the query's placeholders
+   * @param batchSize - Number of rows fetched at a time
+   * @returns An async iterator over the rows
+   */
+  static async *streamRows<R = any>(
+    query: CursorQuery,
+    scope: TransactionScope,
+    text: string,
+    values?: any[],
+    batchSize?: number,
+  ): AsyncGenerator<R, void, undefined> {
+    for await (const rows of this.fetchBatches<R>(query, scope, text, values, this.resolveBatchSize(batchSize))) {
+      yield* rows;
+    }
+  }
+}
@@ -2,8 +2,42 @@
  * @file Utilities for error handling, categorization and wrapping
  */
 
+import { DatabaseError } from 'pg';
 import { ErrorCategory, PgParallelError } from '../types';
 
+/**
+ * Fields of a PostgreSQL `DatabaseError` that survive serialization
+ */
+type DatabaseErrorField =
+  | 'severity'
+  | 'code'
+  | 'detail'
+  | 'hint'
+  | 'position'
+  | 'internalPosition'
+  | 'internalQuery'
+  | 'where'
+  | 'schema'
+  | 'table'
+  | 'column'
+  | 'dataType'
+  | 'constraint'
+  | 'file'
+  | 'line'
+  | 'routine';
+
+/**
+ * A plain-object form of an error that can be posted between threads
+ */
+export interface SerializedError extends Partial<Record<DatabaseErrorField, string>> {
+  name: string;
+  message: string;
+  stack?: string;
+  /** Set when the error is a PgParallelError. */
+  category?: ErrorCategory;
+  cause?: SerializedError;
+}
+
 /**
  * Error handling utilities for pg-parallel
  */
@@ -91,6 +125,9 @@ export class ErrorUtils {
     const name: string | undefined = err?.name;
     const message: string | undefined = err?.message;
 
+    // Errors raised by pg-parallel itself already carry their category
+    if (error instanceof PgParallelError) return error.category;
+
     if (name === 'AggregateError' && Array.isArray(err?.errors) && err.errors.length > 0) {
       return this.categorizeError(err.errors[0]);
     }
@@ -119,6 +156,82 @@ export class ErrorUtils {
     return 'UNKNOWN';
   }
 
+  private static readonly DATABASE_ERROR_FIELDS: DatabaseErrorField[] = [
+    'severity',
+    'code',
+    'detail',
+    'hint',
+    'position',
+    'internalPosition',
+    'internalQuery',
+    'where',
+    'schema',
+    'table',
+    'column',
+    'dataType',
+    'constraint',
+    'file',
+    'line',
+    'routine',
+  ];
+
+  // Guards against cyclic cause chains
+  private static readonly MAX_CAUSE_DEPTH = 5;
+
+  /**
+   * Converts an error into a plain object that can be posted to another thread,
+   * keeping the stack, the PostgreSQL error fields and the cause chain.
+   * @param error - The error to serialize
+   * @param depth - Depth in the cause chain, used internally
+   * @returns The serialized error
+   */
+  static serializeError(error: unknown, depth = 0): SerializedError {
+    const err: any = error as any;
+    if (!err || typeof err !== 'object') {
+      return { name: 'Error', message: String(error) };
+    }
+
+    const serialized: SerializedError = {
+      name: typeof err.name === 'string' ? err.name : 'Error',
+      message: typeof err.message === 'string' ? err.message : String(error),
+    };
+    if (typeof err.stack === 'string') serialized.stack = err.stack;
+    for (const field of this.DATABASE_ERROR_FIELDS) {
+      if (err[field] !== undefined && err[field] !== null) serialized[field] = String(err[field]);
+    }
+    if (error instanceof PgParallelError) serialized.category = error.category;
+    if (err.cause !== undefined && depth < this.MAX_CAUSE_DEPTH) {
+      serialized.cause = this.serializeError(err.cause, depth + 1);
+    }
+    return serialized;
+  }
+
+  /**
+   * Rebuilds an error serialized with `serializeError`. PostgreSQL errors come
+   * back as `DatabaseError` instances and pg-parallel errors as `PgParallelError`.
+   * @param serialized - The serialized error
+   * @returns The rehydrated error
+   */
+  static deserializeError(serialized: SerializedError): Error {
+    const cause = serialized.cause ? this.deserializeError(serialized.cause) : undefined;
+
+    let error: Error;
+    if (serialized.category) {
+      error = new PgParallelError(serialized.message, serialized.category, cause);
+    } else {
+      error = serialized.severity
+        ? new DatabaseError(serialized.message, serialized.message.length, 'error')
+        : new Error(serialized.message);
+      error.name = serialized.name;
+      for (const field of this.DATABASE_ERROR_FIELDS) {
+        if (serialized[field] !== undefined) (error as any)[field] = serialized[field];
+      }
+      if (cause !== undefined) (error as any).cause = cause;
+    }
+    if (serialized.stack) error.stack = serialized.stack;
+    return error;
+  }
+
   /**
    * Wraps any error into PgParallelError with a category.
    * Optimized to avoid re-wrapping and unnecessary categorization.
@@ -0,0 +1,141 @@
+/**
+ * @file Utilities for fanning collections out to worker tasks in chunks
+ */
+
+/**
+ * A chunk of items and the index of its first item
+ */
+export interface MapChunk<T> {
+  index: number;
+  offset: number;
+  items: T[];
+}
+
+/**
+ * Map utilities for pg-parallel
+ */
+export class MapUtils {
+  /** Chunks created per concurrent slot when no chunk size is given. */
+  static readonly CHUNKS_PER_SLOT = 4;
+
+  /**
+   * Applies a serialized function to a chunk of items. Runs inside a worker
+   * thread through `task()`, so it must stay self-contained.
+   * @param source - Source of the function applied to each item
+   * @param items - The items of the chunk
+   * @param offset - Index of the first item in the whole collection
+   * @param settle - Reports each item's outcome instead of failing on the first error
+   * @returns The results, or the settled outcomes, of the items
+   */
+  static readonly mapChunk = async (source: string, items: unknown[], offset: number, settle: boolean) => {
+    const fn = new Function(`return (${source})`)();
+    const results: unknown[] = [];
+    for (let i = 0; i < items.length; i++) {
+      if (!settle) {
+        results.push(await fn(items[i], offset + i));
+        continue;
+      }
+      try {
+        results.push({ status: 'fulfilled', value: await fn(items[i], offset + i) });
+      } catch (reason) {
+        results.push({ status: 'rejected', reason });
+      }
+    }
+    return results;
+  };
+
+  /**
+   * Folds a chunk of items with a serialized reducer. Runs inside a worker
+   * thread through `task()`, so it must stay self-contained.
+   * @param source - Source of the reducer
+   * @param items - The items of the chunk
+   * @param initial - The accumulator the chunk starts from
+   * @returns The chunk's accumulator
+   */
+  static readonly reduceChunk = async (source: string, items: unknown[], initial: unknown) => {
+    const reducer = new Function(`return (${source})`)();
+    let accumulator = initial;
+    for (const item of items) accumulator = await reducer(accumulator, item);
+    return accumulator;
+  };
+
+  /**
+   * Validates the number of chunks processed at once.
+   * @param concurrency - The requested concurrency
+   * @returns The concurrency
+   */
+  static resolveConcurrency(concurrency: number): number {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`Invalid concurrency '${concurrency}'.`);
+    }
+    return concurrency;
+  }
+
+  /**
+   * Validates the chunk size, or picks one that spreads `count` items over
+   * `CHUNKS_PER_SLOT` chunks per concurrent slot.
+   * @param chunkSize - The requested chunk size
+   * @param count - Number of items
+   * @param concurrency - Number of chunks processed at once
+   * @returns The chunk size
+   */
+  static resolveChunkSize(chunkSize: number | undefined, count: number, concurrency: number): number {
+    if (chunkSize === undefined) {
+      return Math.max(1, Math.ceil(count / (concurrency * this.CHUNKS_PER_SLOT)));
+    }
+    if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+      throw new Error(`Invalid chunk size '${chunkSize}'.`);
+    }
+    return chunkSize;
+  }
+
+  /**
+   * Splits items into chunks of `size` items.
+   * @param items - The items
+   * @param size - Number of items per chunk
+   * @returns The chunks, in item order
+   */
+  static chunk<T>(items: T[], size: number): MapChunk<T>[] {
+    const chunks: MapChunk<T>[] = [];
+    for (let offset = 0; offset < items.length; offset += size) {
+      chunks.push({ index: chunks.length, offset, items: items.slice(offset, offset + size) });
+    }
+    return chunks;
+  }
+
+  /**
+   * Runs `run` on every chunk with at most `concurrency` runs in flight. Without
+   * `settle`, the first failure rejects and chunks not yet started are skipped.
+   * @param chunks - The chunks
+   * @param concurrency - Maximum number of runs in flight
+   * @param run - Processes a chunk
+   * @param settle - Keeps going after failures, reporting each chunk's outcome
+   * @returns The outcome of each chunk, in completion order
+   */
+  static async runChunks<T, R>(
+    chunks: MapChunk<T>[],
+    concurrency: number,
+    run: (chunk: MapChunk<T>) => Promise<R>,
+    settle = false,
+  ): Promise<{ chunk: MapChunk<T>; outcome: PromiseSettledResult<R> }[]> {
+    const completed: { chunk: MapChunk<T>; outcome: PromiseSettledResult<R> }[] = [];
+    let next = 0;
+    let failed = false;
+    const runner = async () => {
+      while (next < chunks.length && !failed) {
+        const chunk = chunks[next++];
+        try {
+          completed.push({ chunk, outcome: { status: 'fulfilled', value: await run(chunk) } });
+        } catch (reason) {
+          if (!settle) {
+            failed = true;
+            throw reason;
+          }
+          completed.push({ chunk, outcome: { status: 'rejected', reason } });
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, runner));
+    return completed;
+  }
+}
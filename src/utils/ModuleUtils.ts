@@ -0,0 +1,78 @@
+/**
+ * @file Utilities for loading task modules in any supported format
+ */
+
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+/**
+ * Module loading utilities for pg-parallel
+ */
+export class ModuleUtils {
+  static readonly TYPESCRIPT_EXTENSIONS = ['.ts', '.cts', '.mts', '.tsx'];
+  static readonly SUPPORTED_EXTENSIONS = ['', '.js', '.cjs', '.mjs', ...ModuleUtils.TYPESCRIPT_EXTENSIONS];
+
+  // TypeScript compiles `import()` to `require()` for CommonJS output, which cannot load ES modules
+  private static readonly nativeImport = new Function('specifier', 'return import(specifier)') as (
+    specifier: string,
+  ) => Promise<any>;
+
+  /**
+   * Converts a module specifier to a file path.
+   * @param specifier - A path or a `file://` URL
+   * @returns The path
+   */
+  static toPath(specifier: string): string {
+    return specifier.startsWith('file:') ? fileURLToPath(specifier) : specifier;
+  }
+
+  /**
+   * Loads a task module. CommonJS modules are required; ES modules, including
+   * `.mjs` files and `.js` files of `"type": "module"` packages, are imported.
+   * @param specifier - The absolute path or `file://` URL of the module
+   * @param loader - Module required first, registering a loader for TypeScript
+   * @returns The module's exports
+   */
+  static async importModule(specifier: string, loader?: string | null): Promise<any> {
+    const modulePath = this.toPath(specifier);
+    const extension = path.extname(modulePath);
+    if (!this.SUPPORTED_EXTENSIONS.includes(extension)) {
+      throw new Error(
+        `Unsupported task module format '${extension}' for ${modulePath}; tasks must be JavaScript or TypeScript modules.`,
+      );
+    }
+    if (loader) this.registerLoader(loader);
+
+    try {
+      if (extension === '.mjs' || extension === '.mts') {
+        return await this.nativeImport(pathToFileURL(modulePath).href);
+      }
+      try {
+        return require(modulePath);
+      } catch (error: any) {
+        if (error?.code !== 'ERR_REQUIRE_ESM' && error?.code !== 'ERR_REQUIRE_ASYNC_MODULE') throw error;
+        return await this.nativeImport(pathToFileURL(modulePath).href);
+      }
+    } catch (error: any) {
+      // Without a loader, Node parses TypeScript as JavaScript or rejects its extension
+      if (this.TYPESCRIPT_EXTENSIONS.includes(extension) && !require.extensions[extension]) {
+        throw new Error(
+          `Cannot load TypeScript task module ${modulePath} without a loader; set the taskLoader option, e.g. to 'ts-node/register/transpile-only'. ${error?.message ?? error}`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Requires the module registering a loader, such as `ts-node/register`.
+   * @param loader - Module name or path
+   */
+  static registerLoader(loader: string): void {
+    try {
+      require(loader);
+    } catch (error: any) {
+      throw new Error(`Cannot load task loader '${loader}': ${error?.message ?? error}`);
+    }
+  }
+}
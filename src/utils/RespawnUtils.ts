@@ -0,0 +1,59 @@
+/**
+ * @file Utilities for respawning crashed worker threads
+ */
+
+import { WorkerRespawnConfig } from '../types';
+
+/**
+ * Worker respawn utilities for pg-parallel
+ */
+export class RespawnUtils {
+  /**
+   * Gets default worker respawn configuration
+   * @returns Default worker respawn configuration
+   */
+  static getDefaultConfig(): WorkerRespawnConfig {
+    return {
+      initialDelayMs: 100,
+      maxDelayMs: 5_000,
+      backoffFactor: 2,
+      maxRestarts: 5,
+      windowMs: 60_000,
+    };
+  }
+
+  /**
+   * Records a crash, dropping crashes that fell out of the crash-loop window
+   * @param crashes - Timestamps of previous crashes, updated in place
+   * @param config - Worker respawn configuration
+   * @param now - Timestamp of the new crash
+   * @returns Number of crashes inside the window, including the new one
+   */
+  static recordCrash(crashes: number[], config: WorkerRespawnConfig, now: number = Date.now()): number {
+    const recent = crashes.filter((timestamp) => now - timestamp < config.windowMs);
+    recent.push(now);
+    crashes.splice(0, crashes.length, ...recent);
+    return recent.length;
+  }
+
+  /**
+   * Returns true if another respawn is allowed for this many recent crashes
+   * @param recentCrashes - Number of crashes inside the window
+   * @param config - Worker respawn configuration
+   * @returns True if the crash-loop limit has not been reached
+   */
+  static canRespawn(recentCrashes: number, config: WorkerRespawnConfig): boolean {
+    return recentCrashes <= config.maxRestarts;
+  }
+
+  /**
+   * Computes the delay before respawning, growing with the number of recent crashes
+   * @param recentCrashes - Number of crashes inside the window
+   * @param config - Worker respawn configuration
+   * @returns Delay in milliseconds
+   */
+  static computeDelay(recentCrashes: number, config: WorkerRespawnConfig): number {
+    const exponent = Math.max(0, recentCrashes - 1);
+    return Math.min(config.maxDelayMs, Math.max(0, config.initialDelayMs) * config.backoffFactor ** exponent);
+  }
+}
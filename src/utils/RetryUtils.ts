@@ -9,6 +9,20 @@ import { ErrorUtils } from './ErrorUtils';
  * Retry utilities for pg-parallel
  */
 export class RetryUtils {
+  /**
+   * Gets default retry configuration
+   * @returns Default retry configuration
+   */
+  static getDefaultConfig(): RetryConfig {
+    return {
+      maxAttempts: 3,
+      initialDelayMs: 50,
+      maxDelayMs: 1_000,
+      backoffFactor: 2,
+      jitter: true,
+    };
+  }
+
   /**
    * Executes a function with retry logic using exponential backoff with optional jitter.
    * @param fn - The function to execute with retries
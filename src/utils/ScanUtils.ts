@@ -0,0 +1,217 @@
+/**
+ * @file Utilities for splitting table scans into partitions processed in parallel
+ */
+
+import { IParallelClient, ScanOptions, ScanProcessor } from '../types';
+import { CursorQuery, CursorUtils } from './CursorUtils';
+import { TransactionUtils } from './TransactionUtils';
+
+/**
+ * A range of the table read by a single worker job
+ */
+export interface ScanPartition {
+  index: number;
+  lower?: string;
+  upper?: string;
+  /** The query reading the rows of the partition. */
+  text: string;
+  values: any[];
+}
+
+/**
+ * The work sent to a worker for one partition
+ */
+export interface ScanTask {
+  scan: { text: string; values: any[]; batchSize: number };
+  processor: ScanProcessor;
+}
+
+/**
+ * What a worker reports back once a partition is processed
+ */
+export interface ScanPartitionOutcome<T = any> {
+  results: T[];
+  rows: number;
+  batches: number;
+}
+
+type KeyKind = 'integer' | 'float' | 'time' | 'uuid';
+
+/**
+ * Scan utilities for pg-parallel
+ */
+export class ScanUtils {
+  private static readonly KEY_KINDS: Record<string, KeyKind> = {
+    smallint: 'integer',
+    integer: 'integer',
+    bigint: 'integer',
+    numeric: 'float',
+    real: 'float',
+    'double precision': 'float',
+    date: 'time',
+    'timestamp without time zone': 'time',
+    'timestamp with time zone': 'time',
+    uuid: 'uuid',
+  };
+
+  private static readonly UUID_SPACE = 1n << 128n;
+
+  /**
+   * Validates the number of partitions of a scan.
+   * @param partitions - The requested number of partitions
+   * @returns The number of partitions
+   */
+  static resolvePartitionCount(partitions: number): number {
+    if (!Number.isInteger(partitions) || partitions < 1) {
+      throw new Error(`Invalid partition count '${partitions}'.`);
+    }
+    return partitions;
+  }
+
+  /**
+   * Splits a table into at most `count` partitions. Key ranges are taken from
+   * the smallest and largest key matching `where`, except for uuid keys which
+   * split the whole uuid space. The first and last partitions are open-ended so
+   * rows added meanwhile are not missed, and rows with a `NULL` key belong to
+   * the first partition. Without a key, the table's blocks are split instead.
+   * @param query - Executes the planning statements
+   * @param options - Scan options
+   * @param count - Number of partitions wanted
+   * @returns The partitions, in key order
+   */
+  static async planPartitions(query: CursorQuery, options: ScanOptions, count: number): Promise<ScanPartition[]> {
+    const table = TransactionUtils.quoteQualifiedName(options.table);
+    const filter = options.where ? `(${options.where})` : undefined;
+    const values = options.values ?? [];
+
+    let column: string;
+    let type: string;
+    let bounds: string[];
+    if (options.key) {
+      column = TransactionUtils.quoteIdentifier(options.key);
+      const { rows } = await query(
+        'SELECT format_type(atttypid, NULL) AS type FROM pg_attribute WHERE attrelid = $1::regclass AND attname = $2 AND NOT attisdropped',
+        [table, options.key],
+      );
+      type = rows[0]?.type;
+      if (!type) throw new Error(`Column '${options.key}' not found in table '${options.table}'.`);
+      const kind = this.KEY_KINDS[type];
+      if (!kind) throw new Error(`Unsupported scan key type '${type}'.`);
+      bounds = await this.splitKeyRange(query, kind, column, table, filter, values, count);
+    } else {
+      column = 'ctid';
+      type = 'tid';
+      const { rows } = await query(
+        "SELECT (pg_relation_size($1::regclass) / current_setting('block_size')::int)::text AS blocks",
+        [table],
+      );
+      const blocks = BigInt(rows[0].blocks);
+      bounds = this.splitIntegers(0n, blocks - 1n, count).map((block) => `(${block},0)`);
+    }
+
+    const partitions = [undefined, ...bounds].map((lower, index) => ({ lower, upper: bounds[index] }));
+    return partitions.map(({ lower, upper }, index) => {
+      const params = [...values];
+      const conditions = filter ? [filter] : [];
+      if (lower !== undefined) {
+        params.push(lower);
+        conditions.push(`${column} >= $${params.length}::${type}`);
+      }
+      if (upper !== undefined) {
+        params.push(upper);
+        const range = `${column} < $${params.length}::${type}`;
+        conditions.push(lower === undefined && options.key ? `(${range} OR ${column} IS NULL)` : range);
+      }
+      const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+      return { index, lower, upper, text: `SELECT ${options.columns ?? '*'} FROM ${table}${where}`, values: params };
+    });
+  }
+
+  /**
+   * Reads a partition through a cursor, running `processor` on each batch of rows.
+   * The cursor lives in a transaction of the client, so transactions the
+   * processor opens on it become savepoints and its statements are not retried.
+   * @param client - The connection of the job processing the partition
+   * @param scan - The partition's query and batch size
+   * @param processor - Processes a batch of rows
+   * @returns The processor's results and the number of rows and batches read
+   */
+  static processPartition<T>(
+    client: IParallelClient,
+    scan: ScanTask['scan'],
+    processor: ScanProcessor<any, T>,
+  ): Promise<ScanPartitionOutcome<T>> {
+    return client.transaction(async () => {
+      const outcome: ScanPartitionOutcome<T> = { results: [], rows: 0, batches: 0 };
+      const batches = CursorUtils.fetchBatches(
+        (text, values) => client.query(text, values),
+        TransactionUtils.createScope(1),
+        scan.text,
+        scan.values,
+        scan.batchSize,
+      );
+      for await (const rows of batches) {
+        outcome.results.push(await processor(rows, client));
+        outcome.rows += rows.length;
+        outcome.batches += 1;
+      }
+      return outcome;
+    });
+  }
+
+  /**
+   * Computes the boundaries between `count` ranges of a key, as SQL literals.
+   */
+  private static async splitKeyRange(
+    query: CursorQuery,
+    kind: KeyKind,
+    column: string,
+    table: string,
+    filter: string | undefined,
+    values: any[],
+    count: number,
+  ): Promise<string[]> {
+    if (kind === 'uuid') {
+      return this.splitIntegers(0n, this.UUID_SPACE - 1n, count).map((value) => {
+        const hex = value.toString(16).padStart(32, '0');
+        return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+      });
+    }
+
+    // Timestamps are split as epoch milliseconds
+    const extremes =
+      kind === 'time'
+        ? `(extract(epoch FROM min(${column})) * 1000)::text AS lower, (extract(epoch FROM max(${column})) * 1000)::text AS upper`
+        : `min(${column})::text AS lower, max(${column})::text AS upper`;
+    const { rows } = await query(`SELECT ${extremes} FROM ${table}${filter ? ` WHERE ${filter}` : ''}`, values);
+    const { lower, upper } = rows[0] ?? {};
+    if (lower === null || lower === undefined) return [];
+
+    if (kind === 'integer') return this.splitIntegers(BigInt(lower), BigInt(upper), count).map(String);
+    const bounds = this.splitNumbers(Number(lower), Number(upper), count);
+    return kind === 'time' ? bounds.map((ms) => new Date(ms).toISOString()) : bounds.map(String);
+  }
+
+  /**
+   * Splits the inclusive range `[lower, upper]` into at most `count` ranges.
+   * @returns The first value of every range but the first
+   */
+  private static splitIntegers(lower: bigint, upper: bigint, count: number): bigint[] {
+    const size = upper - lower + 1n;
+    const bounds: bigint[] = [];
+    for (let i = 1n; i < BigInt(count); i++) {
+      const bound = lower + (size * i) / BigInt(count);
+      if (bound > (bounds[bounds.length - 1] ?? lower) && bound <= upper) bounds.push(bound);
+    }
+    return bounds;
+  }
+
+  private static splitNumbers(lower: number, upper: number, count: number): number[] {
+    const bounds: number[] = [];
+    for (let i = 1; i < count; i++) {
+      const bound = lower + ((upper - lower) * i) / count;
+      if (bound > (bounds[bounds.length - 1] ?? lower)) bounds.push(bound);
+    }
+    return bounds;
+  }
+}
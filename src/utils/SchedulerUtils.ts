@@ -0,0 +1,55 @@
+/**
+ * @file Utilities for choosing the worker that runs the next job
+ */
+
+import { SchedulerStrategy } from '../types';
+
+/**
+ * The load information a scheduling strategy looks at
+ */
+export interface WorkerLoad {
+  activeJobs: number;
+}
+
+/**
+ * Worker scheduling utilities for pg-parallel
+ */
+export class SchedulerUtils {
+  /**
+   * Selects the worker for the next job among the workers with spare capacity
+   * @param strategy - Scheduling strategy
+   * @param workers - Workers in rotation order
+   * @param capacity - Maximum number of concurrent jobs per worker
+   * @param cursor - Index the round-robin scan starts from; also breaks ties for `least-loaded`
+   * @param random - Random number source in [0, 1), used by `random-two-choices`
+   * @returns Index of the selected worker, or -1 when every worker is at capacity
+   */
+  static selectWorker(
+    strategy: SchedulerStrategy,
+    workers: WorkerLoad[],
+    capacity: number,
+    cursor: number,
+    random: () => number = Math.random,
+  ): number {
+    const candidates: number[] = [];
+    for (let i = 0; i < workers.length; i++) {
+      const index = (cursor + i) % workers.length;
+      if (workers[index].activeJobs < capacity) candidates.push(index);
+    }
+    if (candidates.length === 0) return -1;
+
+    switch (strategy) {
+      case 'least-loaded':
+        return candidates.reduce((best, index) =>
+          workers[index].activeJobs < workers[best].activeJobs ? index : best,
+        );
+      case 'random-two-choices': {
+        const first = candidates[Math.floor(random() * candidates.length)];
+        const second = candidates[Math.floor(random() * candidates.length)];
+        return workers[second].activeJobs < workers[first].activeJobs ? second : first;
+      }
+      default:
+        return candidates[0];
+    }
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * @file Utilities for applying per-call session settings to a connection
+ */
+
+import { SessionContext } from '../types';
+import { TransactionScope } from './TransactionUtils';
+
+/**
+ * Executes a statement on the connection the settings apply to
+ */
+export type SessionQuery = (text: string, values?: unknown[]) => Promise<unknown>;
+
+/**
+ * Session context utilities for pg-parallel
+ */
+export class SessionUtils {
+  /**
+   * Checks a context before any connection is involved.
+   * @param context - Settings by name, e.g. `{ 'app.tenant_id': '42' }`
+   * @returns True if the context holds any settings
+   */
+  static hasContext(context: SessionContext | undefined): context is SessionContext {
+    if (context === undefined) return false;
+    if (!context || typeof context !== 'object' || Array.isArray(context)) {
+      throw new Error('The session context must be an object mapping setting names to string values.');
+    }
+    const names = Object.keys(context);
+    for (const name of names) {
+      if (typeof context[name] !== 'string') {
+        throw new Error(`Session context value for '${name}' must be a string.`);
+      }
+    }
+    return names.length > 0;
+  }
+
+  /**
+   * Builds the statement applying the settings until the end of the current
+   * transaction.
+   * @param context - Settings by name
+   * @returns The statement and its values
+   */
+  static buildSetStatement(context: SessionContext): { text: string; values: string[] } {
+    const names = Object.keys(context);
+    return {
+      text: `SELECT ${names.map((_, i) => `set_config($${i * 2 + 1}, $${i * 2 + 2}, true)`).join(', ')}`,
+      values: names.flatMap((name) => [name, context[name]]),
+    };
+  }
+
+  /**
+   * Applies the settings inside the transaction already open on a connection.
+   * @param query - Executes a statement on that connection
+   * @param context - Settings by name
+   */
+  static async applyContext(query: SessionQuery, context: SessionContext): Promise<void> {
+    const { text, values } = this.buildSetStatement(context);
+    await query(text, values);
+  }
+
+  /**
+   * Runs `fn` in a transaction holding the settings, so they are gone once it
+   * commits or rolls back. The scope is inside the transaction while `fn` runs,
+   * so nested transactions become savepoints.
+   * @param query - Executes a statement on the connection
+   * @param scope - Transaction scope of the client `fn` uses
+   * @param context - Settings by name
+   * @param fn - The function to run
+   * @param onUncleared - Called when the rollback fails, leaving the settings
+   * on a connection that must then be discarded
+   * @returns The result of `fn`
+   */
+  static async runWithContext<T>(
+    query: SessionQuery,
+    scope: TransactionScope,
+    context: SessionContext,
+    fn: () => Promise<T>,
+    onUncleared: () => void,
+  ): Promise<T> {
+    await query('BEGIN');
+    scope.depth += 1;
+    try {
+      await this.applyContext(query, context);
+      const result = await fn();
+      await query('COMMIT');
+      return result;
+    } catch (error) {
+      await query('ROLLBACK').catch(onUncleared);
+      throw error;
+    } finally {
+      scope.depth -= 1;
+    }
+  }
+}
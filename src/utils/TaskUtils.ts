@@ -0,0 +1,190 @@
+/**
+ * @file Utilities for loading the tasks registered by name and the tasks defined
+ * with `defineTask()`
+ */
+
+import { IParallelClient, ModuleReference, TaskDefinition, WorkerFileTask } from '../types';
+import { ModuleUtils } from './ModuleUtils';
+
+/**
+ * A function registered as a task
+ */
+export type RegisteredTask = (...args: any[]) => unknown;
+
+/**
+ * A task loaded in a thread, or the error that prevented loading it
+ */
+export interface LoadedTask {
+  fn?: RegisteredTask;
+  error?: unknown;
+}
+
+/**
+ * A call to a task defined with `defineTask()`. The thread running it finds the
+ * task among the exports of its module.
+ */
+export interface DefinedTaskCall {
+  definedTask: { taskPath: string; taskIndex: number; name: string; args: any[] };
+}
+
+/**
+ * Task registry utilities for pg-parallel
+ */
+export class TaskUtils {
+  // Tasks defined so far per module, so every thread numbers a module's tasks alike
+  private static readonly definitionCounts = new Map<string, number>();
+
+  /**
+   * Validates a task registration.
+   * @param name - The name the task is run by
+   * @param reference - The module exporting the task
+   * @returns The reference
+   */
+  static validateRegistration(name: string, reference: ModuleReference): ModuleReference {
+    if (typeof name !== 'string' || name.length === 0) {
+      throw new Error('Task names must be non-empty strings.');
+    }
+    if (!reference || typeof reference.modulePath !== 'string' || reference.modulePath.length === 0) {
+      throw new Error(`Task '${name}' needs a module path.`);
+    }
+    return { modulePath: reference.modulePath, exportName: reference.exportName };
+  }
+
+  /**
+   * Loads a registered task. A module that fails to load only fails the calls
+   * to its tasks, so the error is kept rather than thrown.
+   * @param name - The name the task is run by
+   * @param reference - The module exporting the task; the export defaults to `name`
+   * @param loader - Module registering a loader for TypeScript tasks
+   * @returns The task function, or the error raised while loading it
+   */
+  static async loadTask(name: string, reference: ModuleReference, loader?: string | null): Promise<LoadedTask> {
+    const exportName = reference.exportName || name;
+    try {
+      const fn = (await ModuleUtils.importModule(reference.modulePath, loader))[exportName];
+      if (typeof fn !== 'function') {
+        throw new Error(`Task '${exportName}' not found or not a function in ${reference.modulePath}`);
+      }
+      return { fn };
+    } catch (error) {
+      return { error };
+    }
+  }
+
+  /**
+   * Returns the function of a loaded task.
+   * @param name - The name the task is run by
+   * @param loaded - The task, if registered
+   * @returns The task function
+   */
+  static resolveTask(name: string, loaded: LoadedTask | undefined): RegisteredTask {
+    if (!loaded) throw new Error(`Task '${name}' is not registered.`);
+    if (loaded.error) throw loaded.error;
+    return loaded.fn!;
+  }
+
+  /**
+   * Loads a file-based task.
+   * @param task - The file-based task
+   * @param loader - Module registering a loader for TypeScript tasks
+   * @returns The function running the task with a client
+   */
+  static async loadFileTask(
+    task: WorkerFileTask,
+    loader?: string | null,
+  ): Promise<(client: IParallelClient) => Promise<any>> {
+    const taskModule = await ModuleUtils.importModule(task.taskPath, loader);
+    const taskName = task.taskName || 'handler';
+    if (typeof taskModule[taskName] !== 'function') {
+      throw new Error(`Task '${taskName}' not found or not a function in ${task.taskPath}`);
+    }
+    const taskArgs = task.args || [];
+    return (client) => taskModule[taskName](client, ...taskArgs);
+  }
+
+  /**
+   * Runs the `workerSetup` hook of a thread.
+   * @param reference - The module and export providing the hook; `setup` by default
+   * @param loader - Module registering a loader for TypeScript modules
+   * @returns The hook's result, passed to tasks as their context
+   */
+  static async runSetup(reference: ModuleReference, loader?: string | null): Promise<unknown> {
+    const exportName = reference.exportName || 'setup';
+    const setup = (await ModuleUtils.importModule(reference.modulePath, loader))[exportName];
+    if (typeof setup !== 'function') {
+      throw new Error(`Worker setup '${exportName}' not found or not a function in ${reference.modulePath}`);
+    }
+    return setup();
+  }
+
+  /**
+   * Tags a file-based task with the path of the module exporting it, and its
+   * position among the tasks that module defines. The module must export the
+   * returned function, under any name.
+   * @param taskPath - The absolute path to the module, usually `__filename`, or
+   * its `file://` URL, usually `import.meta.url`
+   * @param fn - The task, called with a worker client and the call's arguments
+   * @returns The task, runnable with `worker(task, ...args)`
+   */
+  static defineTask<A extends any[], R>(
+    taskPath: string,
+    fn: (client: IParallelClient, ...args: A) => R | Promise<R>,
+  ): TaskDefinition<A, Awaited<R>> {
+    if (typeof taskPath !== 'string' || taskPath.length === 0) {
+      throw new Error('Defined tasks need the path of their module.');
+    }
+    if (typeof fn !== 'function') throw new Error('Defined tasks must be functions.');
+    const taskIndex = TaskUtils.definitionCounts.get(taskPath) ?? 0;
+    TaskUtils.definitionCounts.set(taskPath, taskIndex + 1);
+    return Object.defineProperties(fn, {
+      taskPath: { value: taskPath, enumerable: true },
+      taskIndex: { value: taskIndex, enumerable: true },
+    }) as TaskDefinition<A, Awaited<R>>;
+  }
+
+  /**
+   * Checks whether a task was created with `defineTask()`.
+   * @param task - The task passed to `worker()`
+   * @returns True for defined tasks
+   */
+  static isTaskDefinition(task: unknown): task is TaskDefinition {
+    return typeof task === 'function' && typeof (task as Partial<TaskDefinition>).taskPath === 'string';
+  }
+
+  /**
+   * Describes a call to a defined task without loading its module, which only
+   * the thread running the task does.
+   * @param task - The defined task
+   * @param args - Arguments of the call
+   * @returns The call
+   */
+  static toDefinedTaskCall(task: TaskDefinition, args: any[]): DefinedTaskCall {
+    return { definedTask: { taskPath: task.taskPath, taskIndex: task.taskIndex, name: task.name, args } };
+  }
+
+  /**
+   * Loads the module of a defined task and finds the task among its exports.
+   * @param call - The call to the task
+   * @param loader - Module registering a loader for TypeScript tasks
+   * @returns A function running the task with a client
+   */
+  static async loadDefinedTask(
+    call: DefinedTaskCall['definedTask'],
+    loader?: string | null,
+  ): Promise<(client: IParallelClient) => Promise<any>> {
+    const taskModule = await ModuleUtils.importModule(call.taskPath, loader);
+    const task = Object.values(taskModule).find(
+      (value) => this.isTaskDefinition(value) && value.taskPath === call.taskPath && value.taskIndex === call.taskIndex,
+    ) as TaskDefinition | undefined;
+    if (!task) {
+      throw new Error(`Task '${call.name || 'anonymous'}' is not exported by ${call.taskPath}`);
+    }
+    return (client) => task(client, ...call.args);
+  }
+}
+
+/**
+ * Defines a file-based task whose arguments and result are typed at the call
+ * site. See {@link TaskUtils.defineTask}.
+ */
+export const defineTask = TaskUtils.defineTask;
@@ -0,0 +1,216 @@
+/**
+ * @file Utilities for building and retrying database transactions
+ */
+
+import { IsolationLevel, RetryConfig, TransactionOptions } from '../types';
+import { ErrorUtils } from './ErrorUtils';
+import { RetryUtils } from './RetryUtils';
+
+/**
+ * Tracks how deeply a client is nested inside transaction scopes
+ */
+export interface TransactionScope {
+  depth: number;
+  savepointCounter: number;
+}
+
+/**
+ * Transaction utilities for pg-parallel
+ */
+export class TransactionUtils {
+  private static readonly ISOLATION_LEVELS = new Set<IsolationLevel>([
+    'READ UNCOMMITTED',
+    'READ COMMITTED',
+    'REPEATABLE READ',
+    'SERIALIZABLE',
+  ]);
+
+  /**
+   * Builds the `BEGIN` statement for the given transaction options.
+   * @param options - Transaction options
+   * @returns The SQL statement that opens the transaction
+   */
+  static buildBeginStatement(options: TransactionOptions = {}): string {
+    const modes: string[] = [];
+
+    if (options.isolationLevel) {
+      if (!this.ISOLATION_LEVELS.has(options.isolationLevel)) {
+        throw new Error(`Invalid isolation level '${options.isolationLevel}'.`);
+      }
+      modes.push(`ISOLATION LEVEL ${options.isolationLevel}`);
+    }
+    if (options.readOnly !== undefined) {
+      modes.push(options.readOnly ? 'READ ONLY' : 'READ WRITE');
+    }
+    if (options.deferrable !== undefined) {
+      modes.push(options.deferrable ? 'DEFERRABLE' : 'NOT DEFERRABLE');
+    }
+
+    return modes.length > 0 ? `BEGIN ${modes.join(', ')}` : 'BEGIN';
+  }
+
+  /**
+   * Returns true if the whole transaction should be re-run after this error.
+   * Only serialization failures and deadlocks qualify: any other error leaves
+   * the transaction in a state that a retry would not fix.
+   * @param error - The error raised by the transaction
+   * @returns True if the transaction should be retried
+   */
+  static isRetryable(error: unknown): boolean {
+    const category = ErrorUtils.categorizeError(error);
+    return category === 'SERIALIZATION' || category === 'DEADLOCK';
+  }
+
+  /**
+   * Resolves the retry configuration used to re-run a transaction.
+   * @param options - Transaction options
+   * @param retry - Optional instance-wide retry configuration providing the backoff
+   * @returns Retry configuration restricted to retryable transaction errors
+   */
+  static resolveRetryConfig(options: TransactionOptions = {}, retry?: RetryConfig | null): RetryConfig {
+    const base = retry ?? RetryUtils.getDefaultConfig();
+    const maxAttempts = options.maxAttempts ?? (retry ? retry.maxAttempts : base.maxAttempts);
+
+    return {
+      ...base,
+      maxAttempts: Math.max(1, maxAttempts),
+      retryOn: (error) => this.isRetryable(error),
+    };
+  }
+
+  /**
+   * Runs `body` inside a transaction, committing on success and rolling back on
+   * failure. Serialization failures and deadlocks re-run the whole transaction
+   * with the backoff of the resolved retry configuration.
+   * @param query - Executes a statement on the connection owning the transaction
+   * @param options - Transaction options
+   * @param retry - Optional instance-wide retry configuration providing the backoff
+   * @param body - The function to run inside the transaction
+   * @param opName - Operation name for logging
+   * @param logger - Optional logger for retry events
+   * @returns The result of `body`
+   */
+  static runTransaction<T>(
+    query: (text: string) => Promise<unknown>,
+    options: TransactionOptions,
+    retry: RetryConfig | null | undefined,
+    body: () => Promise<T>,
+    opName: string,
+    logger?: {
+      info?: (message: string, meta?: Record<string, unknown>) => void;
+    },
+  ): Promise<T> {
+    const begin = this.buildBeginStatement(options);
+    const config = this.resolveRetryConfig(options, retry);
+
+    const attempt = async () => {
+      await query(begin);
+      try {
+        const result = await body();
+        await query('COMMIT');
+        return result;
+      } catch (error) {
+        await query('ROLLBACK').catch(() => undefined);
+        throw error;
+      }
+    };
+
+    return RetryUtils.executeWithRetry(attempt, config, opName, logger);
+  }
+
+  /**
+   * Creates a scope tracker for a client
+   * @param depth - Initial depth, 1 when the client already runs inside a transaction
+   * @returns Initial transaction scope
+   */
+  static createScope(depth = 0): TransactionScope {
+    return { depth, savepointCounter: 0 };
+  }
+
+  /**
+   * Quotes a name as a SQL identifier.
+   * @param name - The name
+   * @returns The quoted identifier
+   */
+  static quoteIdentifier(name: string): string {
+    return `"${name.replace(/"/g, '""')}"`;
+  }
+
+  /**
+   * Quotes a possibly schema-qualified table name, part by part.
+   * @param name - The table name, e.g. `public.users`
+   * @returns The quoted name
+   */
+  static quoteQualifiedName(name: string): string {
+    return name
+      .split('.')
+      .map((part) => this.quoteIdentifier(part))
+      .join('.');
+  }
+
+  /**
+   * Runs `fn` inside a savepoint, rolling back to it when `fn` throws so the
+   * enclosing transaction stays usable.
+   * @param query - Executes a statement on the client owning the scope
+   * @param scope - Transaction scope of that client
+   * @param fn - The function to run inside the savepoint
+   * @param name - Optional savepoint name; generated when omitted
+   * @returns The result of `fn`
+   */
+  static async runSavepoint<T>(
+    query: (text: string) => Promise<unknown>,
+    scope: TransactionScope,
+    fn: () => Promise<T>,
+    name?: string,
+  ): Promise<T> {
+    scope.savepointCounter += 1;
+    const savepoint = this.quoteIdentifier(name ?? `pg_parallel_sp_${scope.savepointCounter}`);
+
+    await query(`SAVEPOINT ${savepoint}`);
+    scope.depth += 1;
+    try {
+      const result = await fn();
+      await query(`RELEASE SAVEPOINT ${savepoint}`);
+      return result;
+    } catch (error) {
+      // Keep the original error: a failed rollback leaves the outer transaction aborted anyway
+      await query(`ROLLBACK TO SAVEPOINT ${savepoint}`)
+        .then(() => query(`RELEASE SAVEPOINT ${savepoint}`))
+        .catch(() => undefined);
+      throw error;
+    } finally {
+      scope.depth -= 1;
+    }
+  }
+
+  /**
+   * Runs `fn` in a transaction when the scope is not inside one yet, or in a
+   * savepoint of the enclosing transaction otherwise.
+   * @param query - Executes a statement on the client owning the scope
+   * @param scope - Transaction scope of that client
+   * @param fn - The function to run
+   * @returns The result of `fn`
+   */
+  static async runNested<T>(
+    query: (text: string) => Promise<unknown>,
+    scope: TransactionScope,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    if (scope.depth > 0) {
+      return this.runSavepoint(query, scope, fn);
+    }
+
+    await query('BEGIN');
+    scope.depth += 1;
+    try {
+      const result = await fn();
+      await query('COMMIT');
+      return result;
+    } catch (error) {
+      await query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      scope.depth -= 1;
+    }
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * @file Utilities for moving results between worker threads and the main thread
+ */
+
+import { QueryResult } from 'pg';
+import { types } from 'util';
+import { TransferListItem } from 'worker_threads';
+import { ModuleReference } from '../types';
+import { ModuleUtils } from './ModuleUtils';
+
+/**
+ * Converts a value that structured clone cannot copy into one it can
+ */
+export type ResultSerializer = (value: unknown) => unknown;
+
+/**
+ * A result ready to be posted to another thread
+ */
+export interface PreparedResult {
+  value: unknown;
+  /** True when the value contains Buffers, which structured clone turns into plain Uint8Arrays. */
+  hasBuffers: boolean;
+}
+
+/**
+ * Result transport utilities for pg-parallel
+ */
+export class TransportUtils {
+  // Registered on `globalThis` so every copy of this module loaded in a thread shares the same marks
+  private static readonly TRANSFER_KEY = Symbol.for('pg-parallel.transfer');
+
+  /**
+   * Fallback serializer used when no `resultSerializer` is configured: a JSON
+   * round-trip, which drops functions and other values structured clone rejects.
+   * @param value - The value that could not be cloned
+   * @returns A cloneable copy of the value
+   */
+  static jsonSerializer(value: unknown): unknown {
+    return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+  }
+
+  /**
+   * Loads a result serializer from a module reference.
+   * @param reference - The module and export providing the serializer; `serialize` by default
+   * @param loader - Module registering a loader for TypeScript serializer modules
+   * @returns The serializer, or the JSON fallback when no reference is given
+   */
+  static async loadSerializer(reference?: ModuleReference | null, loader?: string | null): Promise<ResultSerializer> {
+    if (!reference) return (value) => this.jsonSerializer(value);
+
+    const exportName = reference.exportName || 'serialize';
+    const serializer = (await ModuleUtils.importModule(reference.modulePath, loader))[exportName];
+    if (typeof serializer !== 'function') {
+      throw new Error(`Serializer '${exportName}' not found or not a function in ${reference.modulePath}`);
+    }
+    return serializer;
+  }
+
+  /**
+   * Returns true if the error was raised because a value cannot be structured-cloned.
+   * @param error - The error thrown by `postMessage`
+   * @returns True for `DataCloneError`s
+   */
+  static isDataCloneError(error: unknown): boolean {
+    return (error as any)?.name === 'DataCloneError';
+  }
+
+  /**
+   * Marks a value to be transferred rather than copied when it is posted to
+   * another thread. Without a transfer list, the memory of every `ArrayBuffer`,
+   * `Buffer` and typed array inside the value is transferred. The value becomes
+   * unusable on the sending thread once it has been posted.
+   * @param value - The argument or result to transfer
+   * @param transferList - The objects to transfer; defaults to the value's own binary data
+   * @returns The same value, for use inline
+   */
+  static transfer<T extends object>(value: T, transferList?: readonly TransferListItem[]): T {
+    this.transferMarks.set(value, transferList);
+    return value;
+  }
+
+  /**
+   * Collects the objects to transfer when posting a value: the transfer lists
+   * of values marked with `transfer()`, or with `all` every `ArrayBuffer` in the
+   * value. Views sharing their `ArrayBuffer` with other data, such as small
+   * Buffers from Node's allocation pool, are left to be copied.
+   * @param value - The value about to be posted
+   * @param all - Transfer all binary data in the value, marked or not
+   * @returns The transfer list for `postMessage`
+   */
+  static collectTransferables(value: unknown, all = false): TransferListItem[] {
+    const found = new Set<TransferListItem>();
+    this.collectValue(value, all, found, new Set());
+    return [...found];
+  }
+
+  /**
+   * Prepares a result or argument list for structured clone. `pg` query
+   * results are reduced to their public fields, since their parsers are
+   * functions, and Buffers are flagged so the receiving side can restore them.
+   * The value is not mutated.
+   * @param value - The result or arguments to prepare
+   * @returns The prepared value and whether it contains Buffers
+   */
+  static prepareResult(value: unknown): PreparedResult {
+    const state = { hasBuffers: false, seen: new Set<object>() };
+    return { value: this.prepareValue(value, state), hasBuffers: state.hasBuffers };
+  }
+
+  /**
+   * Turns the Uint8Arrays of a cloned result back into Buffers, in place and
+   * without copying their memory.
+   * @param value - The cloned result
+   * @param seen - Objects already visited, used internally
+   * @returns The same value with Buffers restored
+   */
+  static restoreBuffers(value: unknown, seen = new Set<object>()): unknown {
+    if (value === null || typeof value !== 'object') return value;
+    if (types.isUint8Array(value)) {
+      return Buffer.isBuffer(value) ? value : Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+    }
+    if (seen.has(value)) return value;
+    seen.add(value);
+
+    if (Array.isArray(value)) {
+      for (let i = 0; i < value.length; i++) value[i] = this.restoreBuffers(value[i], seen);
+    } else if (this.isPlainObject(value)) {
+      const record = value as Record<string, unknown>;
+      for (const key of Object.keys(record)) record[key] = this.restoreBuffers(record[key], seen);
+    }
+    return value;
+  }
+
+  private static get transferMarks(): WeakMap<object, readonly TransferListItem[] | undefined> {
+    const store = globalThis as any;
+    return (store[this.TRANSFER_KEY] ??= new WeakMap());
+  }
+
+  private static collectValue(value: unknown, all: boolean, found: Set<TransferListItem>, seen: Set<object>): void {
+    if (value === null || typeof value !== 'object' || seen.has(value)) return;
+    seen.add(value);
+
+    const marks = this.transferMarks;
+    if (marks.has(value)) {
+      const transferList = marks.get(value);
+      if (transferList) {
+        transferList.forEach((item) => found.add(item));
+        return;
+      }
+      all = true;
+    }
+
+    if (types.isArrayBuffer(value)) {
+      if (all) found.add(value);
+    } else if (ArrayBuffer.isView(value)) {
+      const { buffer, byteOffset, byteLength } = value;
+      if (all && types.isArrayBuffer(buffer) && byteOffset === 0 && byteLength === buffer.byteLength) found.add(buffer);
+    } else if (Array.isArray(value)) {
+      value.forEach((item) => this.collectValue(item, all, found, seen));
+    } else if (types.isMap(value)) {
+      value.forEach((item, key) => {
+        this.collectValue(key, all, found, seen);
+        this.collectValue(item, all, found, seen);
+      });
+    } else if (types.isSet(value)) {
+      value.forEach((item) => this.collectValue(item, all, found, seen));
+    } else {
+      Object.values(value).forEach((item) => this.collectValue(item, all, found, seen));
+    }
+  }
+
+  private static prepareValue(value: unknown, state: { hasBuffers: boolean; seen: Set<object> }): unknown {
+    if (value === null || typeof value !== 'object') return value;
+    if (Buffer.isBuffer(value)) {
+      state.hasBuffers = true;
+      return value;
+    }
+    if (state.seen.has(value)) return value;
+    state.seen.add(value);
+
+    if (Array.isArray(value)) {
+      let changed = false;
+      const prepared = value.map((item) => {
+        const next = this.prepareValue(item, state);
+        changed ||= next !== item;
+        return next;
+      });
+      return changed ? prepared : value;
+    }
+    if (this.isQueryResult(value)) {
+      const { command, rowCount, oid, fields, rows } = value;
+      return { command, rowCount, oid, fields, rows: this.prepareValue(rows, state) };
+    }
+    if (this.isPlainObject(value)) {
+      let changed = false;
+      const prepared: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        prepared[key] = this.prepareValue(item, state);
+        changed ||= prepared[key] !== item;
+      }
+      return changed ? prepared : value;
+    }
+    return value;
+  }
+
+  // Compares prototype depth rather than identity, since cloned objects may come from another realm
+  private static isPlainObject(value: object): boolean {
+    const proto = Object.getPrototypeOf(value);
+    return proto === null || Object.getPrototypeOf(proto) === null;
+  }
+
+  // `pg` results are class instances carrying row parsers, which cannot be cloned
+  private static isQueryResult(value: any): value is QueryResult {
+    return (
+      !this.isPlainObject(value) && Array.isArray(value.rows) && Array.isArray(value.fields) && 'rowCount' in value
+    );
+  }
+}
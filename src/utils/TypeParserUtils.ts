@@ -0,0 +1,130 @@
+/**
+ * @file Utilities for installing the same type parsers on every connection pool
+ */
+
+import { CustomTypesConfig, types } from 'pg';
+import { ModuleReference, TypeParserName, TypeParserSpec } from '../types';
+import { CursorQuery } from './CursorUtils';
+import { ModuleUtils } from './ModuleUtils';
+
+/**
+ * Parses the text representation of a value
+ */
+export type TypeParser = (value: string) => unknown;
+
+/**
+ * A type parser bound to the OID it parses. Plain data, so it can be sent to
+ * workers, which load the parser themselves.
+ */
+export interface ResolvedTypeParser {
+  oid: number;
+  parser: TypeParserSpec;
+  /** Set for array types, whose elements are parsed by `parser`. */
+  array: boolean;
+}
+
+/**
+ * Type parser utilities for pg-parallel
+ */
+export class TypeParserUtils {
+  static readonly BUILT_IN_PARSERS: Record<TypeParserName, TypeParser> = {
+    string: (value) => value,
+    number: (value) => Number(value),
+    integer: (value) => parseInt(value, 10),
+    bigint: (value) => BigInt(value),
+    boolean: (value) => value === 't' || value === 'true',
+    json: (value) => JSON.parse(value),
+  };
+
+  private static readonly TEXT_ARRAY_OID = 1009;
+
+  /**
+   * Resolves the OIDs of the configured types. An element type also gets a
+   * parser for its array type, unless that one is configured itself.
+   * @param query - Executes the lookup
+   * @param typeParsers - Parsers keyed by OID or type name
+   * @returns The parsers, by OID
+   */
+  static async resolve(query: CursorQuery, typeParsers: Record<string, TypeParserSpec>): Promise<ResolvedTypeParser[]> {
+    const keys = Object.keys(typeParsers);
+    for (const key of keys) this.validateSpec(key, typeParsers[key]);
+
+    const { rows } = await query(
+      `SELECT key, t.oid::int AS oid, t.typarray::int AS array_oid, t.typcategory = 'A' AS is_array
+       FROM unnest($1::text[]) AS key
+       LEFT JOIN pg_type t ON t.oid = CASE WHEN key ~ '^\\d+$' THEN key::oid ELSE to_regtype(key)::oid END`,
+      [keys],
+    );
+    const resolved = new Map<number, ResolvedTypeParser>();
+    const derived: ResolvedTypeParser[] = [];
+    for (const row of rows) {
+      if (row.oid === null) throw new Error(`Unknown type '${row.key}' in typeParsers.`);
+      const parser = typeParsers[row.key];
+      resolved.set(row.oid, { oid: row.oid, parser, array: row.is_array });
+      if (!row.is_array && row.array_oid) derived.push({ oid: row.array_oid, parser, array: true });
+    }
+    for (const entry of derived) {
+      if (!resolved.has(entry.oid)) resolved.set(entry.oid, entry);
+    }
+    return [...resolved.values()];
+  }
+
+  /**
+   * Loads the parser functions of resolved type parsers.
+   * @param resolved - The parsers, by OID
+   * @param loader - Module registering a loader for TypeScript modules
+   * @returns The parser functions, by OID
+   */
+  static async loadParsers(resolved: ResolvedTypeParser[], loader?: string | null): Promise<Map<number, TypeParser>> {
+    const parsers = new Map<number, TypeParser>();
+    for (const { oid, parser, array } of resolved) {
+      const parse =
+        typeof parser === 'string' ? this.BUILT_IN_PARSERS[parser] : await this.loadModuleParser(parser, loader);
+      parsers.set(oid, array ? this.createArrayParser(parse) : parse);
+    }
+    return parsers;
+  }
+
+  /**
+   * Creates the `types` option of a pool, overriding the text parsers of some
+   * types. The map may be filled after the pool is created.
+   * @param parsers - The parser functions, by OID
+   * @returns The pool's type configuration
+   */
+  static createTypes(parsers: Map<number, TypeParser>): CustomTypesConfig {
+    return {
+      getTypeParser: ((oid: number, format?: string) =>
+        (format !== 'binary' && parsers.get(oid)) || types.getTypeParser(oid, format as any)) as any,
+    };
+  }
+
+  private static validateSpec(key: string, parser: TypeParserSpec): void {
+    if (typeof parser === 'string') {
+      if (!(parser in this.BUILT_IN_PARSERS)) {
+        throw new Error(
+          `Invalid type parser '${parser}' for type '${key}'; use one of ${Object.keys(this.BUILT_IN_PARSERS).join(', ')} or a module reference.`,
+        );
+      }
+    } else if (!parser || typeof parser.modulePath !== 'string') {
+      throw new Error(`Type parser for type '${key}' needs a module path.`);
+    }
+  }
+
+  private static async loadModuleParser(reference: ModuleReference, loader?: string | null): Promise<TypeParser> {
+    const exportName = reference.exportName || 'parse';
+    const parse = (await ModuleUtils.importModule(reference.modulePath, loader))[exportName];
+    if (typeof parse !== 'function') {
+      throw new Error(`Type parser '${exportName}' not found or not a function in ${reference.modulePath}`);
+    }
+    return parse;
+  }
+
+  private static createArrayParser(parse: TypeParser): TypeParser {
+    const parseTextArray = types.getTypeParser(this.TEXT_ARRAY_OID, 'text');
+    const parseElements = (elements: unknown[]): unknown[] =>
+      elements.map((element) =>
+        element === null ? null : Array.isArray(element) ? parseElements(element) : parse(element as string),
+      );
+    return (value) => parseElements(parseTextArray(value) as unknown[]);
+  }
+}